@@ -0,0 +1,264 @@
+import { type DayCountConvention, yearFraction } from "./day-count";
+import { divideAndRound, type RoundingMode } from "./decimal";
+import { assertCurrenciesMatch, Money } from "./money";
+import {
+	gcd,
+	powerRate,
+	Rate,
+	type RateInput,
+	rootRate,
+	roundRate,
+} from "./rate";
+
+/**
+ * - `annuity`: equal payments of interest plus principal
+ * - `equalPrincipal`: equal principal repayments, so payments fall over time
+ * - `interestOnly`: interest each period, all principal with the last payment
+ * - `balloon`: equal payments that leave `balloon` outstanding, repaid with
+ *   the last payment
+ */
+export type AmortizationMethod =
+	| "annuity"
+	| "equalPrincipal"
+	| "interestOnly"
+	| "balloon";
+
+export type PaymentFrequency =
+	| "weekly"
+	| "biweekly"
+	| "monthly"
+	| "quarterly"
+	| "semiannual"
+	| "annual";
+
+export type CompoundingFrequency = PaymentFrequency | "daily";
+
+export interface AmortizationOptions {
+	/** Nominal annual interest rate in percent, e.g. 5.5 */
+	annualRate: RateInput;
+	/** Number of payments */
+	periods: number;
+	method?: AmortizationMethod;
+	frequency?: PaymentFrequency;
+	/**
+	 * How often the nominal rate compounds; defaults to the payment frequency.
+	 * When they differ, the per-period rate is the equivalent effective rate.
+	 */
+	compounding?: CompoundingFrequency;
+	/** Amount left to repay with the last payment, for the `balloon` method */
+	balloon?: Money;
+	/** Date the loan starts; payments fall one period apart after it */
+	startDate?: Date;
+	/**
+	 * Charge each period's interest over its actual dates with this
+	 * convention instead of as an equal share of the year. Needs `startDate`.
+	 */
+	dayCount?: DayCountConvention;
+	rounding?: RoundingMode;
+}
+
+export interface AmortizationPayment {
+	/** 1-based payment number */
+	period: number;
+	date?: Date;
+	payment: Money;
+	principal: Money;
+	interest: Money;
+	/** Principal still owed after this payment */
+	balance: Money;
+}
+
+export interface AmortizationSchedule {
+	payments: AmortizationPayment[];
+	totalPayment: Money;
+	totalPrincipal: Money;
+	totalInterest: Money;
+}
+
+export const PERIODS_PER_YEAR: Record<CompoundingFrequency, number> = {
+	daily: 365,
+	weekly: 52,
+	biweekly: 26,
+	monthly: 12,
+	quarterly: 4,
+	semiannual: 2,
+	annual: 1,
+};
+
+/**
+ * Interest rate per payment period. Equal frequencies divide the nominal
+ * rate exactly; otherwise `(1 + r/m)^(m/f) - 1`, to 30 decimal places when
+ * the power is fractional.
+ */
+function periodicRate(
+	annual: Rate,
+	frequency: PaymentFrequency,
+	compounding: CompoundingFrequency,
+): Rate {
+	const f = PERIODS_PER_YEAR[frequency];
+	const m = PERIODS_PER_YEAR[compounding];
+	const nominal = annual.divide(100n);
+	if (f === m) return nominal.divide(BigInt(f));
+
+	const divisor = Number(gcd(BigInt(m), BigInt(f)));
+	const grown = powerRate(
+		nominal.divide(BigInt(m)).add(1n),
+		BigInt(m / divisor),
+	);
+	const root = f / divisor;
+	if (root === 1) return grown.subtract(1n);
+	return rootRate(grown, BigInt(root)).subtract(1n);
+}
+
+/**
+ * Level payment that reduces `principal` to `residual` over `periods` at
+ * `rate` per period: `rate * (P * (1+rate)^n - F) / ((1+rate)^n - 1)`.
+ */
+function levelPayment(
+	principal: bigint,
+	residual: bigint,
+	rate: Rate,
+	periods: number,
+	rounding: RoundingMode,
+): bigint {
+	if (rate.isZero()) {
+		return divideAndRound(principal - residual, BigInt(periods), rounding);
+	}
+	const a = rate.numerator;
+	const b = rate.denominator;
+	const n = BigInt(periods);
+	const grown = (a + b) ** n;
+	const base = b ** n;
+	return divideAndRound(
+		a * (principal * grown - residual * base),
+		b * (grown - base),
+		rounding,
+	);
+}
+
+function paymentDate(
+	start: Date,
+	frequency: PaymentFrequency,
+	period: number,
+): Date {
+	if (frequency === "weekly" || frequency === "biweekly") {
+		const days = (frequency === "weekly" ? 7 : 14) * period;
+		return new Date(start.getTime() + days * 86_400_000);
+	}
+	const months = (12 / PERIODS_PER_YEAR[frequency]) * period;
+	const year = start.getUTCFullYear();
+	const month = start.getUTCMonth() + months;
+	// Clamp to the end of shorter months, e.g. Jan 31 -> Feb 29
+	const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+	const date = new Date(start.getTime());
+	date.setUTCFullYear(year, month, Math.min(start.getUTCDate(), lastDay));
+	return date;
+}
+
+/**
+ * Builds the payment schedule for a fixed-rate loan. Interest is rounded
+ * each period and the last payment absorbs every rounding difference, so
+ * the principal repayments always sum exactly to `principal`.
+ */
+export function amortize(
+	principal: Money,
+	options: AmortizationOptions,
+): AmortizationSchedule {
+	const {
+		periods,
+		method = "annuity",
+		frequency = "monthly",
+		compounding = frequency,
+		startDate,
+		dayCount,
+		rounding = "round",
+	} = options;
+
+	if (!Number.isSafeInteger(periods) || periods < 1) {
+		throw new Error("Amortization periods must be a positive integer");
+	}
+	if (!principal.isPositive()) {
+		throw new Error("Loan principal must be positive");
+	}
+	const annual = Rate.from(options.annualRate);
+	if (annual.isNegative()) {
+		throw new Error("Interest rate must not be negative");
+	}
+	if (dayCount !== undefined && startDate === undefined) {
+		throw new Error("A day count convention requires a startDate");
+	}
+	if (startDate !== undefined && Number.isNaN(startDate.getTime())) {
+		throw new Error("Invalid loan start date");
+	}
+
+	let residual = 0n;
+	if (method === "balloon") {
+		const { balloon } = options;
+		if (balloon === undefined) {
+			throw new Error("A balloon loan requires a balloon amount");
+		}
+		assertCurrenciesMatch(principal.currency, balloon.currency, "amortize");
+		if (balloon.isNegative() || balloon.greaterThan(principal)) {
+			throw new Error("Balloon amount must be between zero and the principal");
+		}
+		residual = balloon.toMinorBigInt();
+	} else if (options.balloon !== undefined) {
+		throw new Error("A balloon amount is only valid with the balloon method");
+	}
+
+	const amount = principal.toMinorBigInt();
+	const rate = periodicRate(annual, frequency, compounding);
+	const level = levelPayment(amount, residual, rate, periods, rounding);
+	const equalPrincipal = divideAndRound(amount, BigInt(periods), rounding);
+	const toMoney = (minor: bigint) =>
+		Money.fromMinorBigInt(principal.currency, minor, {
+			unbounded: principal.isUnbounded(),
+		});
+
+	const payments: AmortizationPayment[] = [];
+	let balance = amount;
+	let previousDate = startDate;
+	for (let period = 1; period <= periods; period++) {
+		const date =
+			startDate === undefined
+				? undefined
+				: paymentDate(startDate, frequency, period);
+		const periodRate =
+			dayCount !== undefined && previousDate !== undefined && date !== undefined
+				? annual
+						.divide(100n)
+						.multiply(yearFraction(previousDate, date, dayCount))
+				: rate;
+		const interest = roundRate(periodRate.multiply(balance), rounding);
+
+		let repaid: bigint;
+		if (period === periods) {
+			repaid = balance;
+		} else if (method === "equalPrincipal") {
+			repaid = equalPrincipal;
+		} else if (method === "interestOnly") {
+			repaid = 0n;
+		} else {
+			repaid = level - interest;
+		}
+		if (repaid > balance) repaid = balance;
+
+		balance -= repaid;
+		payments.push({
+			period,
+			date,
+			payment: toMoney(repaid + interest),
+			principal: toMoney(repaid),
+			interest: toMoney(interest),
+			balance: toMoney(balance),
+		});
+		previousDate = date;
+	}
+
+	return {
+		payments,
+		totalPayment: Money.sum(payments.map((entry) => entry.payment)),
+		totalPrincipal: Money.sum(payments.map((entry) => entry.principal)),
+		totalInterest: Money.sum(payments.map((entry) => entry.interest)),
+	};
+}
@@ -0,0 +1,1151 @@
+import type { CurrencyMetadata } from "./currency";
+
+/**
+ * Display and cash-handling details merged into the `Currency` table. Every
+ * ISO 4217 currency has symbols and plural names from CLDR's English data;
+ * the most common also carry `symbolPosition`, the convention of the issuing
+ * country, and `cashIncrement` where cash is rounded.
+ */
+export const CURRENCY_METADATA: Readonly<Record<string, CurrencyMetadata>> = {
+	USD: {
+		symbol: "US$",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "US dollar", other: "US dollars" },
+	},
+	EUR: {
+		symbol: "€",
+		narrowSymbol: "€",
+		symbolPosition: "after",
+		pluralNames: { one: "euro", other: "euros" },
+	},
+	GBP: {
+		symbol: "£",
+		narrowSymbol: "£",
+		symbolPosition: "before",
+		pluralNames: { one: "British pound", other: "British pounds" },
+	},
+	JPY: {
+		symbol: "¥",
+		narrowSymbol: "¥",
+		symbolPosition: "before",
+		pluralNames: { one: "Japanese yen", other: "Japanese yen" },
+	},
+	CAD: {
+		symbol: "CA$",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "Canadian dollar", other: "Canadian dollars" },
+		cashIncrement: 0.05,
+	},
+	AUD: {
+		symbol: "A$",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "Australian dollar", other: "Australian dollars" },
+		cashIncrement: 0.05,
+	},
+	NZD: {
+		symbol: "NZ$",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "New Zealand dollar", other: "New Zealand dollars" },
+		cashIncrement: 0.1,
+	},
+	CHF: {
+		symbol: "CHF",
+		narrowSymbol: "CHF",
+		symbolPosition: "before",
+		pluralNames: { one: "Swiss franc", other: "Swiss francs" },
+		cashIncrement: 0.05,
+	},
+	SEK: {
+		symbol: "SEK",
+		narrowSymbol: "kr",
+		symbolPosition: "after",
+		pluralNames: { one: "Swedish krona", other: "Swedish kronor" },
+		cashIncrement: 1,
+	},
+	NOK: {
+		symbol: "NOK",
+		narrowSymbol: "kr",
+		symbolPosition: "after",
+		pluralNames: { one: "Norwegian krone", other: "Norwegian kroner" },
+		cashIncrement: 1,
+	},
+	DKK: {
+		symbol: "DKK",
+		narrowSymbol: "kr.",
+		symbolPosition: "after",
+		pluralNames: { one: "Danish krone", other: "Danish kroner" },
+		cashIncrement: 0.5,
+	},
+	PLN: {
+		symbol: "PLN",
+		narrowSymbol: "zł",
+		symbolPosition: "after",
+		pluralNames: { one: "Polish zloty", other: "Polish zlotys" },
+	},
+	CZK: {
+		symbol: "CZK",
+		narrowSymbol: "Kč",
+		symbolPosition: "after",
+		pluralNames: { one: "Czech koruna", other: "Czech korunas" },
+		cashIncrement: 1,
+	},
+	HUF: {
+		symbol: "HUF",
+		narrowSymbol: "Ft",
+		symbolPosition: "after",
+		pluralNames: { one: "Hungarian forint", other: "Hungarian forints" },
+		cashIncrement: 5,
+	},
+	BRL: {
+		symbol: "R$",
+		narrowSymbol: "R$",
+		symbolPosition: "before",
+		pluralNames: { one: "Brazilian real", other: "Brazilian reals" },
+	},
+	MXN: {
+		symbol: "MX$",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "Mexican peso", other: "Mexican pesos" },
+	},
+	ARS: {
+		symbol: "ARS",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "Argentine peso", other: "Argentine pesos" },
+	},
+	CLP: {
+		symbol: "CLP",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "Chilean peso", other: "Chilean pesos" },
+	},
+	INR: {
+		symbol: "₹",
+		narrowSymbol: "₹",
+		symbolPosition: "before",
+		pluralNames: { one: "Indian rupee", other: "Indian rupees" },
+	},
+	SGD: {
+		symbol: "SGD",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "Singapore dollar", other: "Singapore dollars" },
+	},
+	HKD: {
+		symbol: "HK$",
+		narrowSymbol: "$",
+		symbolPosition: "before",
+		pluralNames: { one: "Hong Kong dollar", other: "Hong Kong dollars" },
+	},
+	KRW: {
+		symbol: "₩",
+		narrowSymbol: "₩",
+		symbolPosition: "before",
+		pluralNames: { one: "South Korean won", other: "South Korean won" },
+	},
+	CNY: {
+		symbol: "CN¥",
+		narrowSymbol: "¥",
+		symbolPosition: "before",
+		pluralNames: { one: "Chinese yuan", other: "Chinese yuan" },
+	},
+	ZAR: {
+		symbol: "ZAR",
+		narrowSymbol: "R",
+		symbolPosition: "before",
+		pluralNames: { one: "South African rand", other: "South African rand" },
+	},
+	AED: {
+		symbol: "AED",
+		narrowSymbol: "AED",
+		symbolPosition: "before",
+		pluralNames: { one: "UAE dirham", other: "UAE dirhams" },
+	},
+	SAR: {
+		symbol: "SAR",
+		narrowSymbol: "SAR",
+		symbolPosition: "before",
+		pluralNames: { one: "Saudi riyal", other: "Saudi riyals" },
+	},
+	// Remaining ISO 4217 currencies: symbols and names only
+	AFN: {
+		symbol: "AFN",
+		narrowSymbol: "؋",
+		pluralNames: { one: "Afghan Afghani", other: "Afghan Afghanis" },
+	},
+	ALL: {
+		symbol: "ALL",
+		narrowSymbol: "ALL",
+		pluralNames: { one: "Albanian lek", other: "Albanian lekë" },
+	},
+	AMD: {
+		symbol: "AMD",
+		narrowSymbol: "֏",
+		pluralNames: { one: "Armenian dram", other: "Armenian drams" },
+	},
+	ANG: {
+		symbol: "ANG",
+		narrowSymbol: "ANG",
+		pluralNames: {
+			one: "Netherlands Antillean guilder",
+			other: "Netherlands Antillean guilders",
+		},
+	},
+	AOA: {
+		symbol: "AOA",
+		narrowSymbol: "Kz",
+		pluralNames: { one: "Angolan kwanza", other: "Angolan kwanzas" },
+	},
+	ATS: {
+		symbol: "ATS",
+		narrowSymbol: "ATS",
+		pluralNames: { one: "Austrian schilling", other: "Austrian schillings" },
+	},
+	AWG: {
+		symbol: "AWG",
+		narrowSymbol: "AWG",
+		pluralNames: { one: "Aruban florin", other: "Aruban florin" },
+	},
+	AZN: {
+		symbol: "AZN",
+		narrowSymbol: "₼",
+		pluralNames: { one: "Azerbaijani manat", other: "Azerbaijani manats" },
+	},
+	BAM: {
+		symbol: "BAM",
+		narrowSymbol: "KM",
+		pluralNames: {
+			one: "Bosnia-Herzegovina convertible mark",
+			other: "Bosnia-Herzegovina convertible marks",
+		},
+	},
+	BBD: {
+		symbol: "BBD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Barbadian dollar", other: "Barbadian dollars" },
+	},
+	BDT: {
+		symbol: "BDT",
+		narrowSymbol: "৳",
+		pluralNames: { one: "Bangladeshi taka", other: "Bangladeshi takas" },
+	},
+	BEF: {
+		symbol: "BEF",
+		narrowSymbol: "BEF",
+		pluralNames: { one: "Belgian franc", other: "Belgian francs" },
+	},
+	BGN: {
+		symbol: "BGN",
+		narrowSymbol: "BGN",
+		pluralNames: { one: "Bulgarian lev", other: "Bulgarian leva" },
+	},
+	BHD: {
+		symbol: "BHD",
+		narrowSymbol: "BHD",
+		pluralNames: { one: "Bahraini dinar", other: "Bahraini dinars" },
+	},
+	BIF: {
+		symbol: "BIF",
+		narrowSymbol: "BIF",
+		pluralNames: { one: "Burundian franc", other: "Burundian francs" },
+	},
+	BMD: {
+		symbol: "BMD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Bermudan dollar", other: "Bermudan dollars" },
+	},
+	BND: {
+		symbol: "BND",
+		narrowSymbol: "$",
+		pluralNames: { one: "Brunei dollar", other: "Brunei dollars" },
+	},
+	BOB: {
+		symbol: "BOB",
+		narrowSymbol: "Bs",
+		pluralNames: { one: "Bolivian boliviano", other: "Bolivian bolivianos" },
+	},
+	BOV: {
+		symbol: "BOV",
+		narrowSymbol: "BOV",
+		pluralNames: { one: "Bolivian mvdol", other: "Bolivian mvdols" },
+	},
+	BSD: {
+		symbol: "BSD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Bahamian dollar", other: "Bahamian dollars" },
+	},
+	BTN: {
+		symbol: "BTN",
+		narrowSymbol: "BTN",
+		pluralNames: { one: "Bhutanese ngultrum", other: "Bhutanese ngultrums" },
+	},
+	BWP: {
+		symbol: "BWP",
+		narrowSymbol: "P",
+		pluralNames: { one: "Botswanan pula", other: "Botswanan pulas" },
+	},
+	BYN: {
+		symbol: "BYN",
+		narrowSymbol: "BYN",
+		pluralNames: { one: "Belarusian ruble", other: "Belarusian rubles" },
+	},
+	BYR: {
+		symbol: "BYR",
+		narrowSymbol: "BYR",
+		pluralNames: {
+			one: "Belarusian ruble (2000–2016)",
+			other: "Belarusian rubles (2000–2016)",
+		},
+	},
+	BZD: {
+		symbol: "BZD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Belize dollar", other: "Belize dollars" },
+	},
+	CDF: {
+		symbol: "CDF",
+		narrowSymbol: "CDF",
+		pluralNames: { one: "Congolese franc", other: "Congolese francs" },
+	},
+	CHE: {
+		symbol: "CHE",
+		narrowSymbol: "CHE",
+		pluralNames: { one: "WIR euro", other: "WIR euros" },
+	},
+	CHW: {
+		symbol: "CHW",
+		narrowSymbol: "CHW",
+		pluralNames: { one: "WIR franc", other: "WIR francs" },
+	},
+	CLF: {
+		symbol: "CLF",
+		narrowSymbol: "CLF",
+		pluralNames: {
+			one: "Chilean unit of account (UF)",
+			other: "Chilean units of account (UF)",
+		},
+	},
+	COP: {
+		symbol: "COP",
+		narrowSymbol: "$",
+		pluralNames: { one: "Colombian peso", other: "Colombian pesos" },
+	},
+	COU: {
+		symbol: "COU",
+		narrowSymbol: "COU",
+		pluralNames: {
+			one: "Colombian real value unit",
+			other: "Colombian real value units",
+		},
+	},
+	CRC: {
+		symbol: "CRC",
+		narrowSymbol: "₡",
+		pluralNames: { one: "Costa Rican colón", other: "Costa Rican colóns" },
+	},
+	CSD: {
+		symbol: "CSD",
+		narrowSymbol: "CSD",
+		pluralNames: {
+			one: "Serbian dinar (2002–2006)",
+			other: "Serbian dinars (2002–2006)",
+		},
+	},
+	CUC: {
+		symbol: "CUC",
+		narrowSymbol: "$",
+		pluralNames: {
+			one: "Cuban convertible peso",
+			other: "Cuban convertible pesos",
+		},
+	},
+	CUP: {
+		symbol: "CUP",
+		narrowSymbol: "$",
+		pluralNames: { one: "Cuban peso", other: "Cuban pesos" },
+	},
+	CVE: {
+		symbol: "CVE",
+		narrowSymbol: "CVE",
+		pluralNames: { one: "Cape Verdean escudo", other: "Cape Verdean escudos" },
+	},
+	CYP: {
+		symbol: "CYP",
+		narrowSymbol: "CYP",
+		pluralNames: { one: "Cypriot pound", other: "Cypriot pounds" },
+	},
+	DEM: {
+		symbol: "DEM",
+		narrowSymbol: "DEM",
+		pluralNames: { one: "German mark", other: "German marks" },
+	},
+	DJF: {
+		symbol: "DJF",
+		narrowSymbol: "DJF",
+		pluralNames: { one: "Djiboutian franc", other: "Djiboutian francs" },
+	},
+	DOP: {
+		symbol: "DOP",
+		narrowSymbol: "$",
+		pluralNames: { one: "Dominican peso", other: "Dominican pesos" },
+	},
+	DZD: {
+		symbol: "DZD",
+		narrowSymbol: "DZD",
+		pluralNames: { one: "Algerian dinar", other: "Algerian dinars" },
+	},
+	EEK: {
+		symbol: "EEK",
+		narrowSymbol: "EEK",
+		pluralNames: { one: "Estonian kroon", other: "Estonian kroons" },
+	},
+	EGP: {
+		symbol: "EGP",
+		narrowSymbol: "E£",
+		pluralNames: { one: "Egyptian pound", other: "Egyptian pounds" },
+	},
+	ERN: {
+		symbol: "ERN",
+		narrowSymbol: "ERN",
+		pluralNames: { one: "Eritrean nakfa", other: "Eritrean nakfas" },
+	},
+	ESP: {
+		symbol: "ESP",
+		narrowSymbol: "₧",
+		pluralNames: { one: "Spanish peseta", other: "Spanish pesetas" },
+	},
+	ETB: {
+		symbol: "ETB",
+		narrowSymbol: "ETB",
+		pluralNames: { one: "Ethiopian birr", other: "Ethiopian birrs" },
+	},
+	FIM: {
+		symbol: "FIM",
+		narrowSymbol: "FIM",
+		pluralNames: { one: "Finnish markka", other: "Finnish markkas" },
+	},
+	FJD: {
+		symbol: "FJD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Fijian dollar", other: "Fijian dollars" },
+	},
+	FKP: {
+		symbol: "FKP",
+		narrowSymbol: "£",
+		pluralNames: {
+			one: "Falkland Islands pound",
+			other: "Falkland Islands pounds",
+		},
+	},
+	FRF: {
+		symbol: "FRF",
+		narrowSymbol: "FRF",
+		pluralNames: { one: "French franc", other: "French francs" },
+	},
+	GEL: {
+		symbol: "GEL",
+		narrowSymbol: "₾",
+		pluralNames: { one: "Georgian lari", other: "Georgian laris" },
+	},
+	GHC: {
+		symbol: "GHC",
+		narrowSymbol: "GHC",
+		pluralNames: {
+			one: "Ghanaian cedi (1979–2007)",
+			other: "Ghanaian cedis (1979–2007)",
+		},
+	},
+	GHS: {
+		symbol: "GHS",
+		narrowSymbol: "GH₵",
+		pluralNames: { one: "Ghanaian cedi", other: "Ghanaian cedis" },
+	},
+	GIP: {
+		symbol: "GIP",
+		narrowSymbol: "£",
+		pluralNames: { one: "Gibraltar pound", other: "Gibraltar pounds" },
+	},
+	GMD: {
+		symbol: "GMD",
+		narrowSymbol: "GMD",
+		pluralNames: { one: "Gambian dalasi", other: "Gambian dalasis" },
+	},
+	GNF: {
+		symbol: "GNF",
+		narrowSymbol: "FG",
+		pluralNames: { one: "Guinean franc", other: "Guinean francs" },
+	},
+	GRD: {
+		symbol: "GRD",
+		narrowSymbol: "GRD",
+		pluralNames: { one: "Greek drachma", other: "Greek drachmas" },
+	},
+	GTQ: {
+		symbol: "GTQ",
+		narrowSymbol: "Q",
+		pluralNames: { one: "Guatemalan quetzal", other: "Guatemalan quetzals" },
+	},
+	GYD: {
+		symbol: "GYD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Guyanaese dollar", other: "Guyanaese dollars" },
+	},
+	HNL: {
+		symbol: "HNL",
+		narrowSymbol: "L",
+		pluralNames: { one: "Honduran lempira", other: "Honduran lempiras" },
+	},
+	HRK: {
+		symbol: "HRK",
+		narrowSymbol: "kn",
+		pluralNames: { one: "Croatian kuna", other: "Croatian kunas" },
+	},
+	HTG: {
+		symbol: "HTG",
+		narrowSymbol: "HTG",
+		pluralNames: { one: "Haitian gourde", other: "Haitian gourdes" },
+	},
+	IDR: {
+		symbol: "IDR",
+		narrowSymbol: "Rp",
+		pluralNames: { one: "Indonesian rupiah", other: "Indonesian rupiahs" },
+	},
+	IEP: {
+		symbol: "IEP",
+		narrowSymbol: "IEP",
+		pluralNames: { one: "Irish pound", other: "Irish pounds" },
+	},
+	ILS: {
+		symbol: "₪",
+		narrowSymbol: "₪",
+		pluralNames: { one: "Israeli new shekel", other: "Israeli new shekels" },
+	},
+	IQD: {
+		symbol: "IQD",
+		narrowSymbol: "IQD",
+		pluralNames: { one: "Iraqi dinar", other: "Iraqi dinars" },
+	},
+	IRR: {
+		symbol: "IRR",
+		narrowSymbol: "IRR",
+		pluralNames: { one: "Iranian rial", other: "Iranian rials" },
+	},
+	ISK: {
+		symbol: "ISK",
+		narrowSymbol: "kr",
+		pluralNames: { one: "Icelandic króna", other: "Icelandic krónur" },
+	},
+	ITL: {
+		symbol: "ITL",
+		narrowSymbol: "ITL",
+		pluralNames: { one: "Italian lira", other: "Italian liras" },
+	},
+	JMD: {
+		symbol: "JMD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Jamaican dollar", other: "Jamaican dollars" },
+	},
+	JOD: {
+		symbol: "JOD",
+		narrowSymbol: "JOD",
+		pluralNames: { one: "Jordanian dinar", other: "Jordanian dinars" },
+	},
+	KES: {
+		symbol: "KES",
+		narrowSymbol: "KES",
+		pluralNames: { one: "Kenyan shilling", other: "Kenyan shillings" },
+	},
+	KGS: {
+		symbol: "KGS",
+		narrowSymbol: "⃀",
+		pluralNames: { one: "Kyrgyz som", other: "Kyrgyz soms" },
+	},
+	KHR: {
+		symbol: "KHR",
+		narrowSymbol: "៛",
+		pluralNames: { one: "Cambodian riel", other: "Cambodian riels" },
+	},
+	KMF: {
+		symbol: "KMF",
+		narrowSymbol: "CF",
+		pluralNames: { one: "Comorian franc", other: "Comorian francs" },
+	},
+	KPW: {
+		symbol: "KPW",
+		narrowSymbol: "₩",
+		pluralNames: { one: "North Korean won", other: "North Korean won" },
+	},
+	KWD: {
+		symbol: "KWD",
+		narrowSymbol: "KWD",
+		pluralNames: { one: "Kuwaiti dinar", other: "Kuwaiti dinars" },
+	},
+	KYD: {
+		symbol: "KYD",
+		narrowSymbol: "$",
+		pluralNames: {
+			one: "Cayman Islands dollar",
+			other: "Cayman Islands dollars",
+		},
+	},
+	KZT: {
+		symbol: "KZT",
+		narrowSymbol: "₸",
+		pluralNames: { one: "Kazakhstani tenge", other: "Kazakhstani tenges" },
+	},
+	LAK: {
+		symbol: "LAK",
+		narrowSymbol: "₭",
+		pluralNames: { one: "Laotian kip", other: "Laotian kips" },
+	},
+	LBP: {
+		symbol: "LBP",
+		narrowSymbol: "L£",
+		pluralNames: { one: "Lebanese pound", other: "Lebanese pounds" },
+	},
+	LKR: {
+		symbol: "LKR",
+		narrowSymbol: "Rs",
+		pluralNames: { one: "Sri Lankan rupee", other: "Sri Lankan rupees" },
+	},
+	LRD: {
+		symbol: "LRD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Liberian dollar", other: "Liberian dollars" },
+	},
+	LSL: {
+		symbol: "LSL",
+		narrowSymbol: "LSL",
+		pluralNames: { one: "Lesotho loti", other: "Lesotho lotis" },
+	},
+	LTL: {
+		symbol: "LTL",
+		narrowSymbol: "Lt",
+		pluralNames: { one: "Lithuanian litas", other: "Lithuanian litai" },
+	},
+	LUF: {
+		symbol: "LUF",
+		narrowSymbol: "LUF",
+		pluralNames: { one: "Luxembourgian franc", other: "Luxembourgian francs" },
+	},
+	LVL: {
+		symbol: "LVL",
+		narrowSymbol: "Ls",
+		pluralNames: { one: "Latvian lats", other: "Latvian lati" },
+	},
+	LYD: {
+		symbol: "LYD",
+		narrowSymbol: "LYD",
+		pluralNames: { one: "Libyan dinar", other: "Libyan dinars" },
+	},
+	MAD: {
+		symbol: "MAD",
+		narrowSymbol: "MAD",
+		pluralNames: { one: "Moroccan dirham", other: "Moroccan dirhams" },
+	},
+	MDL: {
+		symbol: "MDL",
+		narrowSymbol: "MDL",
+		pluralNames: { one: "Moldovan leu", other: "Moldovan lei" },
+	},
+	MGA: {
+		symbol: "MGA",
+		narrowSymbol: "Ar",
+		pluralNames: { one: "Malagasy ariary", other: "Malagasy ariaries" },
+	},
+	MKD: {
+		symbol: "MKD",
+		narrowSymbol: "MKD",
+		pluralNames: { one: "Macedonian denar", other: "Macedonian denari" },
+	},
+	MMK: {
+		symbol: "MMK",
+		narrowSymbol: "K",
+		pluralNames: { one: "Myanmar kyat", other: "Myanmar kyats" },
+	},
+	MNT: {
+		symbol: "MNT",
+		narrowSymbol: "₮",
+		pluralNames: { one: "Mongolian tugrik", other: "Mongolian tugriks" },
+	},
+	MOP: {
+		symbol: "MOP",
+		narrowSymbol: "MOP",
+		pluralNames: { one: "Macanese pataca", other: "Macanese patacas" },
+	},
+	MRO: {
+		symbol: "MRO",
+		narrowSymbol: "MRO",
+		pluralNames: {
+			one: "Mauritanian ouguiya (1973–2017)",
+			other: "Mauritanian ouguiyas (1973–2017)",
+		},
+	},
+	MRU: {
+		symbol: "MRU",
+		narrowSymbol: "MRU",
+		pluralNames: { one: "Mauritanian ouguiya", other: "Mauritanian ouguiyas" },
+	},
+	MTL: {
+		symbol: "MTL",
+		narrowSymbol: "MTL",
+		pluralNames: { one: "Maltese lira", other: "Maltese lira" },
+	},
+	MUR: {
+		symbol: "MUR",
+		narrowSymbol: "Rs",
+		pluralNames: { one: "Mauritian rupee", other: "Mauritian rupees" },
+	},
+	MVR: {
+		symbol: "MVR",
+		narrowSymbol: "MVR",
+		pluralNames: { one: "Maldivian rufiyaa", other: "Maldivian rufiyaas" },
+	},
+	MWK: {
+		symbol: "MWK",
+		narrowSymbol: "MWK",
+		pluralNames: { one: "Malawian kwacha", other: "Malawian kwachas" },
+	},
+	MXV: {
+		symbol: "MXV",
+		narrowSymbol: "MXV",
+		pluralNames: {
+			one: "Mexican investment unit",
+			other: "Mexican investment units",
+		},
+	},
+	MYR: {
+		symbol: "MYR",
+		narrowSymbol: "RM",
+		pluralNames: { one: "Malaysian ringgit", other: "Malaysian ringgits" },
+	},
+	MZM: {
+		symbol: "MZM",
+		narrowSymbol: "MZM",
+		pluralNames: {
+			one: "Mozambican metical (1980–2006)",
+			other: "Mozambican meticals (1980–2006)",
+		},
+	},
+	MZN: {
+		symbol: "MZN",
+		narrowSymbol: "MZN",
+		pluralNames: { one: "Mozambican metical", other: "Mozambican meticals" },
+	},
+	NAD: {
+		symbol: "NAD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Namibian dollar", other: "Namibian dollars" },
+	},
+	NGN: {
+		symbol: "NGN",
+		narrowSymbol: "₦",
+		pluralNames: { one: "Nigerian naira", other: "Nigerian nairas" },
+	},
+	NIO: {
+		symbol: "NIO",
+		narrowSymbol: "C$",
+		pluralNames: { one: "Nicaraguan córdoba", other: "Nicaraguan córdobas" },
+	},
+	NLG: {
+		symbol: "NLG",
+		narrowSymbol: "NLG",
+		pluralNames: { one: "Dutch guilder", other: "Dutch guilders" },
+	},
+	NPR: {
+		symbol: "NPR",
+		narrowSymbol: "Rs",
+		pluralNames: { one: "Nepalese rupee", other: "Nepalese rupees" },
+	},
+	OMR: {
+		symbol: "OMR",
+		narrowSymbol: "OMR",
+		pluralNames: { one: "Omani rial", other: "Omani rials" },
+	},
+	PAB: {
+		symbol: "PAB",
+		narrowSymbol: "PAB",
+		pluralNames: { one: "Panamanian balboa", other: "Panamanian balboas" },
+	},
+	PEN: {
+		symbol: "PEN",
+		narrowSymbol: "PEN",
+		pluralNames: { one: "Peruvian sol", other: "Peruvian soles" },
+	},
+	PGK: {
+		symbol: "PGK",
+		narrowSymbol: "PGK",
+		pluralNames: {
+			one: "Papua New Guinean kina",
+			other: "Papua New Guinean kina",
+		},
+	},
+	PHP: {
+		symbol: "₱",
+		narrowSymbol: "₱",
+		pluralNames: { one: "Philippine peso", other: "Philippine pesos" },
+	},
+	PKR: {
+		symbol: "PKR",
+		narrowSymbol: "Rs",
+		pluralNames: { one: "Pakistani rupee", other: "Pakistani rupees" },
+	},
+	PTE: {
+		symbol: "PTE",
+		narrowSymbol: "PTE",
+		pluralNames: { one: "Portuguese escudo", other: "Portuguese escudos" },
+	},
+	PYG: {
+		symbol: "PYG",
+		narrowSymbol: "₲",
+		pluralNames: { one: "Paraguayan guarani", other: "Paraguayan guaranis" },
+	},
+	QAR: {
+		symbol: "QAR",
+		narrowSymbol: "QAR",
+		pluralNames: { one: "Qatari riyal", other: "Qatari riyals" },
+	},
+	ROL: {
+		symbol: "ROL",
+		narrowSymbol: "ROL",
+		pluralNames: {
+			one: "Romanian leu (1952–2006)",
+			other: "Romanian Lei (1952–2006)",
+		},
+	},
+	RON: {
+		symbol: "RON",
+		narrowSymbol: "lei",
+		pluralNames: { one: "Romanian leu", other: "Romanian lei" },
+	},
+	RSD: {
+		symbol: "RSD",
+		narrowSymbol: "RSD",
+		pluralNames: { one: "Serbian dinar", other: "Serbian dinars" },
+	},
+	RUB: {
+		symbol: "RUB",
+		narrowSymbol: "₽",
+		pluralNames: { one: "Russian ruble", other: "Russian rubles" },
+	},
+	RWF: {
+		symbol: "RWF",
+		narrowSymbol: "RF",
+		pluralNames: { one: "Rwandan franc", other: "Rwandan francs" },
+	},
+	SBD: {
+		symbol: "SBD",
+		narrowSymbol: "$",
+		pluralNames: {
+			one: "Solomon Islands dollar",
+			other: "Solomon Islands dollars",
+		},
+	},
+	SCR: {
+		symbol: "SCR",
+		narrowSymbol: "SCR",
+		pluralNames: { one: "Seychellois rupee", other: "Seychellois rupees" },
+	},
+	SDD: {
+		symbol: "SDD",
+		narrowSymbol: "SDD",
+		pluralNames: {
+			one: "Sudanese dinar (1992–2007)",
+			other: "Sudanese dinars (1992–2007)",
+		},
+	},
+	SDG: {
+		symbol: "SDG",
+		narrowSymbol: "SDG",
+		pluralNames: { one: "Sudanese pound", other: "Sudanese pounds" },
+	},
+	SHP: {
+		symbol: "SHP",
+		narrowSymbol: "£",
+		pluralNames: { one: "St. Helena pound", other: "St. Helena pounds" },
+	},
+	SIT: {
+		symbol: "SIT",
+		narrowSymbol: "SIT",
+		pluralNames: { one: "Slovenian tolar", other: "Slovenian tolars" },
+	},
+	SKK: {
+		symbol: "SKK",
+		narrowSymbol: "SKK",
+		pluralNames: { one: "Slovak koruna", other: "Slovak korunas" },
+	},
+	SLE: {
+		symbol: "SLE",
+		narrowSymbol: "SLE",
+		pluralNames: {
+			one: "Sierra Leonean leone",
+			other: "Sierra Leonean leones",
+		},
+	},
+	SLL: {
+		symbol: "SLL",
+		narrowSymbol: "SLL",
+		pluralNames: {
+			one: "Sierra Leonean leone (1964—2022)",
+			other: "Sierra Leonean leones (1964—2022)",
+		},
+	},
+	SOS: {
+		symbol: "SOS",
+		narrowSymbol: "SOS",
+		pluralNames: { one: "Somali shilling", other: "Somali shillings" },
+	},
+	SRD: {
+		symbol: "SRD",
+		narrowSymbol: "$",
+		pluralNames: { one: "Surinamese dollar", other: "Surinamese dollars" },
+	},
+	SSP: {
+		symbol: "SSP",
+		narrowSymbol: "£",
+		pluralNames: {
+			one: "South Sudanese pound",
+			other: "South Sudanese pounds",
+		},
+	},
+	STD: {
+		symbol: "STD",
+		narrowSymbol: "STD",
+		pluralNames: {
+			one: "São Tomé & Príncipe dobra (1977–2017)",
+			other: "São Tomé & Príncipe dobras (1977–2017)",
+		},
+	},
+	STN: {
+		symbol: "STN",
+		narrowSymbol: "Db",
+		pluralNames: {
+			one: "São Tomé & Príncipe dobra",
+			other: "São Tomé & Príncipe dobras",
+		},
+	},
+	SVC: {
+		symbol: "SVC",
+		narrowSymbol: "SVC",
+		pluralNames: { one: "Salvadoran colón", other: "Salvadoran colones" },
+	},
+	SYP: {
+		symbol: "SYP",
+		narrowSymbol: "£",
+		pluralNames: { one: "Syrian pound", other: "Syrian pounds" },
+	},
+	SZL: {
+		symbol: "SZL",
+		narrowSymbol: "SZL",
+		pluralNames: { one: "Swazi lilangeni", other: "Swazi emalangeni" },
+	},
+	THB: {
+		symbol: "THB",
+		narrowSymbol: "฿",
+		pluralNames: { one: "Thai baht", other: "Thai baht" },
+	},
+	TJS: {
+		symbol: "TJS",
+		narrowSymbol: "TJS",
+		pluralNames: { one: "Tajikistani somoni", other: "Tajikistani somonis" },
+	},
+	TMT: {
+		symbol: "TMT",
+		narrowSymbol: "TMT",
+		pluralNames: { one: "Turkmenistani manat", other: "Turkmenistani manat" },
+	},
+	TND: {
+		symbol: "TND",
+		narrowSymbol: "TND",
+		pluralNames: { one: "Tunisian dinar", other: "Tunisian dinars" },
+	},
+	TOP: {
+		symbol: "TOP",
+		narrowSymbol: "T$",
+		pluralNames: { one: "Tongan paʻanga", other: "Tongan paʻanga" },
+	},
+	TRL: {
+		symbol: "TRL",
+		narrowSymbol: "TRL",
+		pluralNames: {
+			one: "Turkish lira (1922–2005)",
+			other: "Turkish Lira (1922–2005)",
+		},
+	},
+	TRY: {
+		symbol: "TRY",
+		narrowSymbol: "₺",
+		pluralNames: { one: "Turkish lira", other: "Turkish Lira" },
+	},
+	TTD: {
+		symbol: "TTD",
+		narrowSymbol: "$",
+		pluralNames: {
+			one: "Trinidad & Tobago dollar",
+			other: "Trinidad & Tobago dollars",
+		},
+	},
+	TWD: {
+		symbol: "NT$",
+		narrowSymbol: "$",
+		pluralNames: { one: "New Taiwan dollar", other: "New Taiwan dollars" },
+	},
+	TZS: {
+		symbol: "TZS",
+		narrowSymbol: "TZS",
+		pluralNames: { one: "Tanzanian shilling", other: "Tanzanian shillings" },
+	},
+	UAH: {
+		symbol: "UAH",
+		narrowSymbol: "₴",
+		pluralNames: { one: "Ukrainian hryvnia", other: "Ukrainian hryvnias" },
+	},
+	UGX: {
+		symbol: "UGX",
+		narrowSymbol: "UGX",
+		pluralNames: { one: "Ugandan shilling", other: "Ugandan shillings" },
+	},
+	USN: {
+		symbol: "USN",
+		narrowSymbol: "USN",
+		pluralNames: {
+			one: "US dollar (next day)",
+			other: "US dollars (next day)",
+		},
+	},
+	UYI: {
+		symbol: "UYI",
+		narrowSymbol: "UYI",
+		pluralNames: {
+			one: "Uruguayan peso (indexed units)",
+			other: "Uruguayan pesos (indexed units)",
+		},
+	},
+	UYU: {
+		symbol: "UYU",
+		narrowSymbol: "$",
+		pluralNames: { one: "Uruguayan peso", other: "Uruguayan pesos" },
+	},
+	UYW: {
+		symbol: "UYW",
+		narrowSymbol: "UYW",
+		pluralNames: {
+			one: "Uruguayan nominal wage index unit",
+			other: "Uruguayan nominal wage index units",
+		},
+	},
+	UZS: {
+		symbol: "UZS",
+		narrowSymbol: "UZS",
+		pluralNames: { one: "Uzbekistani som", other: "Uzbekistani som" },
+	},
+	VED: {
+		symbol: "VED",
+		narrowSymbol: "VED",
+		pluralNames: { one: "Bolívar Soberano", other: "Bolívar Soberanos" },
+	},
+	VEF: {
+		symbol: "VEF",
+		narrowSymbol: "Bs",
+		pluralNames: {
+			one: "Venezuelan bolívar (2008–2018)",
+			other: "Venezuelan bolívars (2008–2018)",
+		},
+	},
+	VES: {
+		symbol: "VES",
+		narrowSymbol: "VES",
+		pluralNames: { one: "Venezuelan bolívar", other: "Venezuelan bolívars" },
+	},
+	VND: {
+		symbol: "₫",
+		narrowSymbol: "₫",
+		pluralNames: { one: "Vietnamese dong", other: "Vietnamese dong" },
+	},
+	VUV: {
+		symbol: "VUV",
+		narrowSymbol: "VUV",
+		pluralNames: { one: "Vanuatu vatu", other: "Vanuatu vatus" },
+	},
+	WST: {
+		symbol: "WST",
+		narrowSymbol: "WST",
+		pluralNames: { one: "Samoan tala", other: "Samoan tala" },
+	},
+	XAF: {
+		symbol: "FCFA",
+		narrowSymbol: "FCFA",
+		pluralNames: {
+			one: "Central African CFA franc",
+			other: "Central African CFA francs",
+		},
+	},
+	XCD: {
+		symbol: "EC$",
+		narrowSymbol: "$",
+		pluralNames: {
+			one: "East Caribbean dollar",
+			other: "East Caribbean dollars",
+		},
+	},
+	XCG: {
+		symbol: "Cg.",
+		narrowSymbol: "Cg.",
+		pluralNames: { one: "Caribbean guilder", other: "Caribbean guilders" },
+	},
+	XOF: {
+		symbol: "F CFA",
+		narrowSymbol: "F CFA",
+		pluralNames: {
+			one: "West African CFA franc",
+			other: "West African CFA francs",
+		},
+	},
+	XPF: {
+		symbol: "CFPF",
+		narrowSymbol: "CFPF",
+		pluralNames: { one: "CFP franc", other: "CFP francs" },
+	},
+	YER: {
+		symbol: "YER",
+		narrowSymbol: "YER",
+		pluralNames: { one: "Yemeni rial", other: "Yemeni rials" },
+	},
+	ZMK: {
+		symbol: "ZMK",
+		narrowSymbol: "ZMK",
+		pluralNames: {
+			one: "Zambian kwacha (1968–2012)",
+			other: "Zambian kwachas (1968–2012)",
+		},
+	},
+	ZMW: {
+		symbol: "ZMW",
+		narrowSymbol: "ZK",
+		pluralNames: { one: "Zambian kwacha", other: "Zambian kwachas" },
+	},
+	ZWG: {
+		symbol: "ZWG",
+		narrowSymbol: "ZWG",
+		pluralNames: { one: "Zimbabwean gold", other: "Zimbabwean gold" },
+	},
+	ZWL: {
+		symbol: "ZWL",
+		narrowSymbol: "ZWL",
+		pluralNames: {
+			one: "Zimbabwean dollar (2009–2024)",
+			other: "Zimbabwean dollars (2009–2024)",
+		},
+	},
+	BTC: {
+		symbol: "₿",
+		narrowSymbol: "₿",
+		symbolPosition: "before",
+		pluralNames: { one: "bitcoin", other: "bitcoins" },
+	},
+};
@@ -0,0 +1,95 @@
+import {
+	Currency,
+	type CurrencyDefinition,
+	type CurrencyResolver,
+} from "./currency";
+
+/**
+ * Tracks runtime-defined currencies so every code maps to exactly one
+ * precision. Registering a code twice with different decimal places throws.
+ * Child registries see their parent's currencies and may add their own,
+ * which stay invisible to the parent and to sibling registries; a parent
+ * cannot later register one of those codes with another precision.
+ */
+export class CurrencyRegistry implements CurrencyResolver {
+	readonly #currencies = new Map<string, CurrencyDefinition>();
+	readonly #parent: CurrencyRegistry | undefined;
+	/** Weakly held, so discarded tenant registries can be collected */
+	readonly #children = new Set<WeakRef<CurrencyRegistry>>();
+
+	constructor(
+		currencies: Iterable<CurrencyDefinition> = [],
+		parent?: CurrencyRegistry,
+	) {
+		this.#parent = parent;
+		for (const definition of currencies) {
+			this.register(definition);
+		}
+	}
+
+	/** Creates a registry pre-populated with the built-in `Currency` table. */
+	static withBuiltins(): CurrencyRegistry {
+		return new CurrencyRegistry(Object.values(Currency));
+	}
+
+	/**
+	 * Adds a definition and returns the registered instance. Re-registering
+	 * an identical definition is a no-op that returns the existing one.
+	 */
+	register(definition: CurrencyDefinition): CurrencyDefinition {
+		const existing = this.get(definition.code);
+		if (existing !== undefined) {
+			if (existing.decimalPlaces !== definition.decimalPlaces) {
+				throw new Error(
+					`Currency ${definition.code} is already registered with ${existing.decimalPlaces} decimal places`,
+				);
+			}
+			return existing;
+		}
+		const below = this.#findBelow(definition.code);
+		if (
+			below !== undefined &&
+			below.decimalPlaces !== definition.decimalPlaces
+		) {
+			throw new Error(
+				`Currency ${definition.code} is already registered with ${below.decimalPlaces} decimal places in a child registry`,
+			);
+		}
+		this.#currencies.set(definition.code, definition);
+		return definition;
+	}
+
+	get(code: string): CurrencyDefinition | undefined {
+		return this.#currencies.get(code) ?? this.#parent?.get(code);
+	}
+
+	has(code: string): boolean {
+		return this.get(code) !== undefined;
+	}
+
+	/** All visible definitions, parent entries first. */
+	list(): CurrencyDefinition[] {
+		return [...(this.#parent?.list() ?? []), ...this.#currencies.values()];
+	}
+
+	/** Creates a scoped registry (e.g. per tenant) that falls back to this one. */
+	createChild(currencies: Iterable<CurrencyDefinition> = []): CurrencyRegistry {
+		const child = new CurrencyRegistry(currencies, this);
+		this.#children.add(new WeakRef(child));
+		return child;
+	}
+
+	/** A definition of `code` in any live descendant registry. */
+	#findBelow(code: string): CurrencyDefinition | undefined {
+		for (const ref of this.#children) {
+			const child = ref.deref();
+			if (child === undefined) {
+				this.#children.delete(ref);
+				continue;
+			}
+			const found = child.#currencies.get(code) ?? child.#findBelow(code);
+			if (found !== undefined) return found;
+		}
+		return undefined;
+	}
+}
@@ -1,45 +1,89 @@
-export interface CurrencyDefinition {
+import { CURRENCY_METADATA } from "./currency-metadata";
+import { ISO_4217 } from "./iso4217";
+
+export type CurrencyStatus = "active" | "historic";
+
+/** Optional descriptive data; only `code` and `decimalPlaces` affect arithmetic. */
+export interface CurrencyMetadata {
+	numericCode?: number;
+	name?: string;
+	status?: CurrencyStatus;
+	/** Unambiguous symbol, e.g. "US$" */
+	symbol?: string;
+	/** Local symbol, e.g. "$" */
+	narrowSymbol?: string;
+	symbolPosition?: "before" | "after";
+	pluralNames?: { one: string; other: string };
+	/** Smallest physical cash unit, e.g. 0.05 for CHF; used by `roundForCash` */
+	cashIncrement?: number;
+}
+
+export interface CurrencyDefinition extends CurrencyMetadata {
 	code: string;
 	decimalPlaces: number;
 }
 
-export const Currency = {
-	USD: { code: "USD", decimalPlaces: 2 },
+function withMetadata<T extends Record<string, CurrencyDefinition>>(
+	table: T,
+): { [K in keyof T]: T[K] & CurrencyMetadata } {
+	const result: Record<string, CurrencyDefinition> = {};
+	for (const [code, definition] of Object.entries(table)) {
+		result[code] = { ...definition, ...CURRENCY_METADATA[code] };
+	}
+	return result as { [K in keyof T]: T[K] & CurrencyMetadata };
+}
+
+const currencyTable = withMetadata({
+	...ISO_4217,
 	USDH: { code: "USDH", decimalPlaces: 3 },
-	EUR: { code: "EUR", decimalPlaces: 2 },
-	GBP: { code: "GBP", decimalPlaces: 2 },
-	JPY: { code: "JPY", decimalPlaces: 0 },
-	CAD: { code: "CAD", decimalPlaces: 2 },
-	AUD: { code: "AUD", decimalPlaces: 2 },
-	NZD: { code: "NZD", decimalPlaces: 2 },
-	CHF: { code: "CHF", decimalPlaces: 2 },
-	SEK: { code: "SEK", decimalPlaces: 2 },
-	NOK: { code: "NOK", decimalPlaces: 2 },
-	DKK: { code: "DKK", decimalPlaces: 2 },
-	PLN: { code: "PLN", decimalPlaces: 2 },
-	CZK: { code: "CZK", decimalPlaces: 2 },
-	HUF: { code: "HUF", decimalPlaces: 2 },
-	BRL: { code: "BRL", decimalPlaces: 2 },
-	MXN: { code: "MXN", decimalPlaces: 2 },
-	ARS: { code: "ARS", decimalPlaces: 2 },
-	CLP: { code: "CLP", decimalPlaces: 0 },
-	INR: { code: "INR", decimalPlaces: 2 },
-	SGD: { code: "SGD", decimalPlaces: 2 },
-	HKD: { code: "HKD", decimalPlaces: 2 },
-	KRW: { code: "KRW", decimalPlaces: 0 },
-	CNY: { code: "CNY", decimalPlaces: 2 },
-	ZAR: { code: "ZAR", decimalPlaces: 2 },
-	AED: { code: "AED", decimalPlaces: 2 },
-	SAR: { code: "SAR", decimalPlaces: 2 },
-	BTC: { code: "BTC", decimalPlaces: 8 },
-} as const satisfies Record<string, CurrencyDefinition>;
-
-export type CurrencyCode = keyof typeof Currency;
+	BTC: { code: "BTC", decimalPlaces: 8, name: "Bitcoin" },
+} as const);
+
+export type CurrencyCode = keyof typeof currencyTable;
+
+const byCode = new Map<string, CurrencyDefinition>(
+	Object.entries(currencyTable),
+);
+const byNumericCode = new Map<number, CurrencyDefinition>();
+for (const definition of Object.values<CurrencyDefinition>(currencyTable)) {
+	const { numericCode } = definition;
+	if (numericCode === undefined) continue;
+	// A withdrawn code may share its number with its successor (ANG/XCG)
+	const existing = byNumericCode.get(numericCode);
+	if (existing === undefined || existing.status === "historic") {
+		byNumericCode.set(numericCode, definition);
+	}
+}
+
+export interface CurrencyLookup {
+	/** Looks up a built-in currency by its alphabetic code ("KWD"). */
+	fromCode(code: string): CurrencyDefinition | undefined;
+	/**
+	 * Looks up a built-in currency by its ISO 4217 numeric code (414).
+	 * Active currencies win over withdrawn ones sharing the same number.
+	 */
+	fromNumeric(numericCode: number): CurrencyDefinition | undefined;
+}
+
+export const Currency = { ...currencyTable } as typeof currencyTable &
+	CurrencyLookup;
+
+// Non-enumerable, so iterating `Currency` yields only definitions
+Object.defineProperties(Currency, {
+	fromCode: {
+		value: (code: string) => byCode.get(code.toUpperCase()),
+	},
+	fromNumeric: {
+		value: (numericCode: number) => byNumericCode.get(numericCode),
+	},
+});
+
 export type CurrencyType = (typeof Currency)[CurrencyCode];
 
 export function defineCurrency(
 	code: string,
 	decimalPlaces: number,
+	metadata: CurrencyMetadata = {},
 ): CurrencyDefinition {
 	if (!code || typeof code !== "string") {
 		throw new Error("Currency code must be a non-empty string");
@@ -47,5 +91,41 @@ export function defineCurrency(
 	if (!Number.isInteger(decimalPlaces) || decimalPlaces < 0) {
 		throw new Error("Decimal places must be a non-negative integer");
 	}
-	return Object.freeze({ code, decimalPlaces });
+	const { cashIncrement } = metadata;
+	if (
+		cashIncrement !== undefined &&
+		(!Number.isFinite(cashIncrement) || cashIncrement <= 0)
+	) {
+		throw new Error("Cash increment must be a finite positive number");
+	}
+	return Object.freeze({ ...metadata, code, decimalPlaces });
+}
+
+/** Anything that can look up a definition by code, e.g. a CurrencyRegistry. */
+export interface CurrencyResolver {
+	get(code: string): CurrencyDefinition | undefined;
+}
+
+export type CurrencySource =
+	| CurrencyResolver
+	| Readonly<Record<string, CurrencyDefinition>>
+	| readonly CurrencyDefinition[];
+
+function isCurrencyResolver(
+	source: CurrencySource,
+): source is CurrencyResolver {
+	return typeof (source as CurrencyResolver).get === "function";
+}
+
+export function findCurrency(
+	code: string,
+	source: CurrencySource = currencyTable,
+): CurrencyDefinition | undefined {
+	if (isCurrencyResolver(source)) {
+		return source.get(code);
+	}
+	for (const definition of Object.values<CurrencyDefinition>(source)) {
+		if (definition.code === code) return definition;
+	}
+	return undefined;
 }
@@ -0,0 +1,81 @@
+import { Rate } from "./rate";
+
+/**
+ * How interest accrues between two dates:
+ * - `30/360`: every month has 30 days and the year 360 (US bond basis)
+ * - `ACT/365`: actual days over a fixed 365-day year
+ * - `ACT/ACT`: actual days, each counted against the length of its own
+ *   calendar year (ISDA)
+ */
+export type DayCountConvention = "30/360" | "ACT/365" | "ACT/ACT";
+
+const MS_PER_DAY = 86_400_000;
+
+function utcDay(date: Date): number {
+	if (Number.isNaN(date.getTime())) {
+		throw new Error("Invalid date");
+	}
+	return Math.floor(
+		Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) /
+			MS_PER_DAY,
+	);
+}
+
+/** Whole calendar days from `start` to `end` (UTC), negative if `end` is earlier. */
+export function daysBetween(start: Date, end: Date): number {
+	return utcDay(end) - utcDay(start);
+}
+
+function isLeapYear(year: number): boolean {
+	return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * The exact fraction of a year between `start` and `end` under `convention`.
+ * Negative when `end` is before `start`.
+ */
+export function yearFraction(
+	start: Date,
+	end: Date,
+	convention: DayCountConvention,
+): Rate {
+	if (utcDay(end) < utcDay(start)) {
+		return yearFraction(end, start, convention).multiply(-1n);
+	}
+
+	switch (convention) {
+		case "30/360": {
+			let d1 = start.getUTCDate();
+			let d2 = end.getUTCDate();
+			if (d1 === 31) d1 = 30;
+			if (d2 === 31 && d1 === 30) d2 = 30;
+			const days =
+				360 * (end.getUTCFullYear() - start.getUTCFullYear()) +
+				30 * (end.getUTCMonth() - start.getUTCMonth()) +
+				(d2 - d1);
+			return Rate.fraction(BigInt(days), 360n);
+		}
+		case "ACT/365":
+			return Rate.fraction(BigInt(daysBetween(start, end)), 365n);
+		case "ACT/ACT": {
+			let fraction = Rate.from(0n);
+			let from = start;
+			for (
+				let year = start.getUTCFullYear();
+				year <= end.getUTCFullYear();
+				year++
+			) {
+				const nextYear = new Date(Date.UTC(year + 1, 0, 1));
+				const to = nextYear < end ? nextYear : end;
+				fraction = fraction.add(
+					Rate.fraction(
+						BigInt(daysBetween(from, to)),
+						isLeapYear(year) ? 366n : 365n,
+					),
+				);
+				from = nextYear;
+			}
+			return fraction;
+		}
+	}
+}
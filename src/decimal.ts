@@ -0,0 +1,116 @@
+/**
+ * `floor`, `ceil` and `trunc` are directed modes. The `half*` modes round to
+ * the nearest value and only differ in how exact ties are broken:
+ * - `halfUp`: toward positive infinity (`round` is an alias kept for
+ *   compatibility)
+ * - `halfDown`: toward negative infinity
+ * - `halfTowardZero` / `halfAwayFromZero`
+ * - `halfEven`: to the even neighbour (banker's rounding)
+ * - `halfOdd`: to the odd neighbour
+ */
+export type RoundingMode =
+	| "floor"
+	| "ceil"
+	| "round"
+	| "trunc"
+	| "halfUp"
+	| "halfDown"
+	| "halfTowardZero"
+	| "halfAwayFromZero"
+	| "halfEven"
+	| "halfOdd";
+
+/** Exact decimal value: a JS number, a decimal string or a whole bigint. */
+export type DecimalInput = number | string | bigint;
+
+// Plain decimal or scientific notation, e.g. "12.345", "-0.10", ".5", "1e-3"
+export const DECIMAL_STRING_PATTERN =
+	/^-?(?:\d+(?:\.\d+)?|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+// Largest exponent accepted in scientific notation; expanding anything
+// bigger would take seconds for no meaningful value
+export const MAX_DECIMAL_EXPONENT = 1000;
+
+/**
+ * Converts a number to a decimal string representation.
+ * Uses toString() which often gives cleaner results (e.g., 1.005 stays "1.005"),
+ * but falls back to toPrecision for edge cases with very small/large numbers.
+ */
+export function numberToDecimalString(n: number): string {
+	// Handle special cases
+	if (!Number.isFinite(n)) {
+		throw new Error(`Cannot convert ${n} to decimal string`);
+	}
+	if (n === 0) return "0";
+
+	// toString() often gives the cleanest representation
+	const str = n.toString();
+
+	// If it's in scientific notation, use toPrecision for more digits
+	if (str.includes("e") || str.includes("E")) {
+		return n.toPrecision(17);
+	}
+
+	return str;
+}
+
+/**
+ * Divides `numerator` by a positive `divisor`, resolving any remainder with
+ * the given rounding mode. Every rounding path funnels through here.
+ */
+export function divideAndRound(
+	numerator: bigint,
+	divisor: bigint,
+	mode: RoundingMode,
+): bigint {
+	const quotient = numerator / divisor;
+	const remainder = numerator % divisor;
+
+	if (remainder === 0n) return quotient;
+
+	const isNegative = numerator < 0n;
+	const towardZero = quotient;
+	const awayFromZero = isNegative ? quotient - 1n : quotient + 1n;
+
+	switch (mode) {
+		case "floor":
+			return isNegative ? awayFromZero : towardZero;
+		case "ceil":
+			return isNegative ? towardZero : awayFromZero;
+		case "trunc":
+			return towardZero;
+	}
+
+	const absRemainder = isNegative ? -remainder : remainder;
+	const cmp = absRemainder * 2n - divisor;
+	if (cmp < 0n) return towardZero;
+	if (cmp > 0n) return awayFromZero;
+
+	// Exactly halfway between two candidates
+	switch (mode) {
+		case "halfDown":
+			return isNegative ? awayFromZero : towardZero;
+		case "halfTowardZero":
+			return towardZero;
+		case "halfAwayFromZero":
+			return awayFromZero;
+		case "halfEven":
+			return towardZero % 2n === 0n ? towardZero : awayFromZero;
+		case "halfOdd":
+			return towardZero % 2n !== 0n ? towardZero : awayFromZero;
+		default:
+			// "round" and "halfUp": ties go toward positive infinity
+			return isNegative ? towardZero : awayFromZero;
+	}
+}
+
+/** Largest integer whose `n`th power does not exceed `value`. */
+export function integerRoot(value: bigint, n: bigint): bigint {
+	if (value < 2n) return value;
+	let x = 1n << (BigInt(value.toString(2).length) / n + 1n);
+	while (true) {
+		const next = ((n - 1n) * x + value / x ** (n - 1n)) / n;
+		if (next >= x) return x;
+		x = next;
+	}
+}
@@ -0,0 +1,243 @@
+import type { RoundingMode } from "./decimal";
+import { Money } from "./money";
+import { Rate, type RateInput } from "./rate";
+
+/** `percent` off the order, optionally capped ("20% off up to $50"). */
+export interface PercentDiscount {
+	type: "percent";
+	percent: RateInput;
+	cap?: Money;
+}
+
+/** A fixed amount off the order. */
+export interface FixedDiscount {
+	type: "fixed";
+	amount: Money;
+}
+
+/**
+ * For every `buy + get` items, the `get` cheapest of that group are
+ * discounted by `percent` (default 100, i.e. free).
+ */
+export interface BuyXGetYDiscount {
+	type: "buyXGetY";
+	buy: number;
+	get: number;
+	percent?: RateInput;
+}
+
+/** The highest tier whose threshold the subtotal reaches applies. */
+export interface TieredDiscount {
+	type: "tiered";
+	tiers: readonly { threshold: Money; percent: RateInput }[];
+	cap?: Money;
+}
+
+export type DiscountRule =
+	| PercentDiscount
+	| FixedDiscount
+	| BuyXGetYDiscount
+	| TieredDiscount;
+
+/**
+ * - `sequential`: each rule applies to the total left by the rules before it
+ * - `additive`: every rule is computed against the undiscounted lines
+ * - `best`: only the single rule giving the largest discount applies
+ */
+export type DiscountStacking = "sequential" | "additive" | "best";
+
+export interface DiscountOptions {
+	stacking?: DiscountStacking;
+	/** The order total never drops below this; defaults to zero */
+	minimumTotal?: Money;
+	rounding?: RoundingMode;
+}
+
+export interface DiscountedLine {
+	original: Money;
+	discount: Money;
+	price: Money;
+}
+
+export interface AppliedDiscount {
+	rule: DiscountRule;
+	amount: Money;
+}
+
+/**
+ * Result of `applyDiscounts`. Line discounts sum exactly to `discount`, so a
+ * refund of any line can use its `price`.
+ */
+export interface DiscountResult {
+	subtotal: Money;
+	discount: Money;
+	total: Money;
+	lines: DiscountedLine[];
+	applied: AppliedDiscount[];
+}
+
+function minMoney(a: Money, b: Money): Money {
+	return a.lessThan(b) ? a : b;
+}
+
+function assertPercent(percent: RateInput): void {
+	const rate = Rate.from(percent);
+	if (rate.isNegative() || rate.compare(100n) > 0) {
+		throw new Error("Discount percent must be between 0 and 100");
+	}
+}
+
+/** Splits `amount` over `weights` in proportion, summing exactly. */
+function allocateProportionally(amount: Money, weights: Money[]): Money[] {
+	const zero = Money.fromMinor(amount.currency, 0);
+	if (amount.isZero() || weights.every((weight) => weight.isZero())) {
+		return weights.map(() => zero);
+	}
+	return amount.allocateByRatios(weights);
+}
+
+/** Per-line discount for one rule, given the current line prices. */
+function ruleDiscounts(
+	rule: DiscountRule,
+	prices: Money[],
+	rounding: RoundingMode,
+): Money[] {
+	const subtotal = Money.sum(prices);
+	const zero = Money.fromMinor(subtotal.currency, 0);
+
+	switch (rule.type) {
+		case "percent": {
+			assertPercent(rule.percent);
+			let amount = subtotal.percentOf(rule.percent, { rounding });
+			if (rule.cap !== undefined) amount = minMoney(amount, rule.cap);
+			return allocateProportionally(amount, prices);
+		}
+		case "fixed": {
+			if (rule.amount.isNegative()) {
+				throw new Error("Fixed discount must not be negative");
+			}
+			return allocateProportionally(minMoney(rule.amount, subtotal), prices);
+		}
+		case "tiered": {
+			let tier: TieredDiscount["tiers"][number] | undefined;
+			for (const candidate of rule.tiers) {
+				if (
+					subtotal.greaterThanOrEqual(candidate.threshold) &&
+					(tier === undefined ||
+						candidate.threshold.greaterThan(tier.threshold))
+				) {
+					tier = candidate;
+				}
+			}
+			if (tier === undefined) return prices.map(() => zero);
+			assertPercent(tier.percent);
+			let amount = subtotal.percentOf(tier.percent, { rounding });
+			if (rule.cap !== undefined) amount = minMoney(amount, rule.cap);
+			return allocateProportionally(amount, prices);
+		}
+		case "buyXGetY": {
+			const { buy, get, percent = 100 } = rule;
+			assertPercent(percent);
+			if (
+				!Number.isInteger(buy) ||
+				buy < 1 ||
+				!Number.isInteger(get) ||
+				get < 1
+			) {
+				throw new Error("Buy X get Y quantities must be positive integers");
+			}
+			// Most expensive first, so each group's discounted items are its cheapest
+			const order = prices
+				.map((price, index) => ({ price, index }))
+				.sort((a, b) => b.price.compare(a.price) || a.index - b.index);
+			const discounts = prices.map(() => zero);
+			const groupSize = buy + get;
+			for (let i = 0; i + groupSize <= order.length; i += groupSize) {
+				for (const { price, index } of order.slice(i + buy, i + groupSize)) {
+					discounts[index] = price.percentOf(percent, { rounding });
+				}
+			}
+			return discounts;
+		}
+	}
+}
+
+/**
+ * Applies discount rules to line items and allocates the result back to the
+ * lines. Order-level discounts (percent, fixed, tiered) are split in
+ * proportion to line prices with the largest-remainder method; buy-X-get-Y
+ * discounts land on the items they make free. The total never drops below
+ * `minimumTotal`.
+ */
+export function applyDiscounts(
+	lines: readonly Money[],
+	rules: readonly DiscountRule[],
+	options: DiscountOptions = {},
+): DiscountResult {
+	const { stacking = "sequential", rounding = "round" } = options;
+
+	const first = lines[0];
+	if (first === undefined) {
+		throw new Error("Discounts require at least one line");
+	}
+	if (lines.some((line) => line.isNegative())) {
+		throw new Error("Discount lines must not be negative");
+	}
+	const subtotal = Money.sum([...lines]);
+	const zero = Money.fromMinor(first.currency, 0);
+	const minimumTotal = options.minimumTotal ?? zero;
+
+	const candidates =
+		stacking === "best" ? [bestRule(lines, rules, rounding)] : rules;
+
+	let prices = [...lines];
+	const applied: AppliedDiscount[] = [];
+	for (const rule of candidates) {
+		if (rule === undefined) continue;
+		let discounts = ruleDiscounts(
+			rule,
+			stacking === "additive" ? [...lines] : prices,
+			rounding,
+		);
+		// No line below zero, and the order total not below the minimum
+		discounts = discounts.map((discount, i) =>
+			minMoney(discount, prices[i] ?? zero),
+		);
+		const headroom = Money.sum(prices).subtract(minimumTotal);
+		let amount = Money.sum([zero, ...discounts]);
+		if (amount.greaterThan(headroom)) {
+			amount = headroom.isNegative() ? zero : headroom;
+			discounts = allocateProportionally(amount, discounts);
+		}
+
+		prices = prices.map((price, i) => price.subtract(discounts[i] ?? zero));
+		applied.push({ rule, amount });
+	}
+
+	const total = Money.sum(prices);
+	return {
+		subtotal,
+		discount: subtotal.subtract(total),
+		total,
+		lines: lines.map((original, i) => {
+			const price = prices[i] ?? original;
+			return { original, discount: original.subtract(price), price };
+		}),
+		applied,
+	};
+}
+
+function bestRule(
+	lines: readonly Money[],
+	rules: readonly DiscountRule[],
+	rounding: RoundingMode,
+): DiscountRule | undefined {
+	let best: { rule: DiscountRule; amount: Money } | undefined;
+	for (const rule of rules) {
+		const amount = Money.sum(ruleDiscounts(rule, [...lines], rounding));
+		if (best === undefined || amount.greaterThan(best.amount)) {
+			best = { rule, amount };
+		}
+	}
+	return best?.rule;
+}
@@ -0,0 +1,31 @@
+export type MoneyJSONField = "value" | "amount" | "currency";
+
+/**
+ * Thrown when a serialized Money value cannot be restored.
+ * `field` names the part of the input that was rejected.
+ */
+export class MoneyJSONError extends Error {
+	readonly field: MoneyJSONField;
+
+	constructor(field: MoneyJSONField, message: string) {
+		super(message);
+		this.name = "MoneyJSONError";
+		this.field = field;
+	}
+}
+
+/**
+ * Thrown when user-entered text cannot be parsed as an amount.
+ * `position` is the index in `input` where parsing failed.
+ */
+export class MoneyParseError extends Error {
+	readonly input: string;
+	readonly position: number;
+
+	constructor(input: string, position: number, message: string) {
+		super(`${message} at position ${position}`);
+		this.name = "MoneyParseError";
+		this.input = input;
+		this.position = position;
+	}
+}
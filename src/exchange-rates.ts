@@ -0,0 +1,159 @@
+import type { CurrencyDefinition } from "./currency";
+import { Rate, type RateInput } from "./rate";
+
+/** How a rate was obtained from the table. */
+export type RateDerivation = "identity" | "direct" | "inverse" | "cross";
+
+/** The rate actually applied to a conversion, for audit trails. */
+export interface ResolvedRate {
+	from: string;
+	to: string;
+	rate: Rate;
+	derivation: RateDerivation;
+	/** Base currency used for cross rates */
+	via?: string;
+}
+
+/** Anything that can supply a rate for a currency pair. */
+export interface ExchangeRateSource {
+	getRate(
+		from: CurrencyDefinition | string,
+		to: CurrencyDefinition | string,
+	): ResolvedRate;
+}
+
+/**
+ * Static rate table: `rates[code]` is the price of one unit of `base` in
+ * `code`, e.g. `{ base: "USD", rates: { EUR: 0.92, JPY: "157.9" } }`.
+ * String rates are kept exactly; `toJSON` always writes strings.
+ */
+export interface ExchangeRatesJSON {
+	base: string;
+	rates: Record<string, number | string>;
+}
+
+/** User-defined loader, e.g. an HTTP call to a rate feed. */
+export type ExchangeRateProvider = () =>
+	| ExchangeRatesJSON
+	| Promise<ExchangeRatesJSON>;
+
+export function codeOf(currency: CurrencyDefinition | string): string {
+	return typeof currency === "string" ? currency : currency.code;
+}
+
+function toValidRate(rate: RateInput): Rate {
+	const exact = Rate.from(rate);
+	if (!exact.isPositive()) {
+		throw new Error("Exchange rate must be a finite positive number");
+	}
+	return exact;
+}
+
+/**
+ * In-memory rate table keyed by currency pair. Missing pairs are derived
+ * from the inverse pair or by triangulating through the base currency.
+ */
+export class ExchangeRates implements ExchangeRateSource {
+	readonly #rates = new Map<string, Rate>();
+	readonly #base: string | undefined;
+
+	constructor(options: { base?: CurrencyDefinition | string } = {}) {
+		this.#base = options.base === undefined ? undefined : codeOf(options.base);
+	}
+
+	get base(): string | undefined {
+		return this.#base;
+	}
+
+	static fromJSON(json: ExchangeRatesJSON): ExchangeRates {
+		const table = new ExchangeRates({ base: json.base });
+		for (const [code, rate] of Object.entries(json.rates)) {
+			table.set(json.base, code, rate);
+		}
+		return table;
+	}
+
+	/** Builds a table from a provider such as a remote rate feed. */
+	static async fromProvider(
+		provider: ExchangeRateProvider,
+	): Promise<ExchangeRates> {
+		return ExchangeRates.fromJSON(await provider());
+	}
+
+	/** Price of one unit of `from` expressed in `to`. */
+	set(
+		from: CurrencyDefinition | string,
+		to: CurrencyDefinition | string,
+		rate: RateInput,
+	): this {
+		this.#rates.set(`${codeOf(from)}/${codeOf(to)}`, toValidRate(rate));
+		return this;
+	}
+
+	has(from: CurrencyDefinition | string, to: CurrencyDefinition | string) {
+		return this.#find(codeOf(from), codeOf(to)) !== undefined;
+	}
+
+	getRate(
+		from: CurrencyDefinition | string,
+		to: CurrencyDefinition | string,
+	): ResolvedRate {
+		const fromCode = codeOf(from);
+		const toCode = codeOf(to);
+		const resolved = this.#find(fromCode, toCode);
+		if (resolved === undefined) {
+			throw new Error(`No exchange rate available for ${fromCode}/${toCode}`);
+		}
+		return resolved;
+	}
+
+	/** Direct pairs only, in `{ base, rates }` form when a base is set. */
+	toJSON(): ExchangeRatesJSON {
+		const base = this.#base;
+		if (base === undefined) {
+			throw new Error("Cannot serialize exchange rates without a base");
+		}
+		const rates: Record<string, string> = {};
+		for (const [pair, rate] of this.#rates) {
+			const [from, to] = pair.split("/");
+			if (from === base && to !== undefined) rates[to] = rate.toJSON();
+		}
+		return { base, rates };
+	}
+
+	#find(from: string, to: string): ResolvedRate | undefined {
+		if (from === to) {
+			return { from, to, rate: Rate.from(1n), derivation: "identity" };
+		}
+
+		const pair = this.#pair(from, to);
+		if (pair !== undefined) return pair;
+
+		const base = this.#base;
+		if (base === undefined || base === from || base === to) return undefined;
+
+		const first = this.#pair(from, base);
+		const second = this.#pair(base, to);
+		if (first === undefined || second === undefined) return undefined;
+
+		return {
+			from,
+			to,
+			rate: first.rate.multiply(second.rate),
+			derivation: "cross",
+			via: base,
+		};
+	}
+
+	#pair(from: string, to: string): ResolvedRate | undefined {
+		const direct = this.#rates.get(`${from}/${to}`);
+		if (direct !== undefined) {
+			return { from, to, rate: direct, derivation: "direct" };
+		}
+		const inverse = this.#rates.get(`${to}/${from}`);
+		if (inverse !== undefined) {
+			return { from, to, rate: inverse.invert(), derivation: "inverse" };
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,187 @@
+import type { CurrencyDefinition } from "./currency";
+import { ISO_4217 } from "./iso4217";
+
+export interface FormatOptions {
+	currencyDisplay?: "symbol" | "narrowSymbol" | "code" | "name";
+	signDisplay?: "auto" | "never" | "always" | "exceptZero";
+	currencySign?: "standard" | "accounting";
+	notation?: "standard" | "compact";
+	compactDisplay?: "short" | "long";
+	useGrouping?: boolean;
+}
+
+// Intl only knows ISO codes; anything else (BTC, USDH, custom tokens) is
+// formatted as the ISO "no currency" code and the currency's own symbol,
+// name or code is swapped back in, honouring its `symbolPosition`.
+const ISO_CODES = new Set(Object.keys(ISO_4217));
+const PLACEHOLDER_CODE = "XXX";
+
+// Parts of the number itself, which the sign and parentheses enclose
+const NUMBER_PART_TYPES = new Set<string>([
+	"integer",
+	"group",
+	"decimal",
+	"fraction",
+	"compact",
+	"exponentSeparator",
+	"exponentMinusSign",
+	"exponentInteger",
+]);
+
+/**
+ * Formats a decimal string (as produced by `Money#toDecimalString`) for
+ * display. Digits are spliced into the parts Intl produces for the
+ * approximate number, so values beyond float precision keep every digit.
+ */
+export function formatDecimalString(
+	value: string,
+	currency: CurrencyDefinition,
+	locales: string | string[] | undefined,
+	options: FormatOptions,
+): string {
+	const { notation = "standard", useGrouping = true } = options;
+	const isIso = ISO_CODES.has(currency.code);
+
+	const formatter = new Intl.NumberFormat(locales, {
+		style: "currency",
+		currency: isIso ? currency.code : PLACEHOLDER_CODE,
+		currencyDisplay: isIso ? options.currencyDisplay : "code",
+		signDisplay: options.signDisplay,
+		currencySign: options.currencySign,
+		notation,
+		compactDisplay: options.compactDisplay,
+		useGrouping,
+		...(notation === "compact"
+			? {}
+			: {
+					minimumFractionDigits: currency.decimalPlaces,
+					maximumFractionDigits: currency.decimalPlaces,
+				}),
+	});
+
+	const approximate = Number(value);
+	const parts = formatter.formatToParts(approximate);
+
+	// Compact notation rounds by design; exact digits are meaningless there
+	const exact =
+		notation === "compact"
+			? parts
+			: spliceExactDigits(parts, value, locales, useGrouping);
+
+	if (isIso) {
+		return exact.map((part) => part.value).join("");
+	}
+
+	const label = currencyLabel(currency, locales, options, approximate);
+	const { currencyDisplay } = options;
+	const placed =
+		currency.symbolPosition === undefined ||
+		currencyDisplay === "code" ||
+		currencyDisplay === "name"
+			? exact
+			: placeCurrency(exact, currency.symbolPosition);
+	return placed
+		.map((part) => (part.type === "currency" ? label : part.value))
+		.join("");
+}
+
+/**
+ * Moves the currency part to `position` relative to the number, keeping any
+ * sign or accounting parentheses outside both.
+ */
+function placeCurrency(
+	parts: Intl.NumberFormatPart[],
+	position: "before" | "after",
+): Intl.NumberFormatPart[] {
+	const currencyIndex = parts.findIndex((part) => part.type === "currency");
+	const numberIndex = parts.findIndex((part) =>
+		NUMBER_PART_TYPES.has(part.type),
+	);
+	const currency = parts[currencyIndex];
+	if (currency === undefined || numberIndex === -1) return parts;
+	if (currencyIndex < numberIndex === (position === "before")) return parts;
+
+	// Drop the currency along with the space separating it from the number
+	const rest = parts.filter(
+		(part, i) =>
+			i !== currencyIndex &&
+			!(
+				Math.abs(i - currencyIndex) === 1 &&
+				part.type === "literal" &&
+				/^\s+$/.test(part.value)
+			),
+	);
+	const space: Intl.NumberFormatPart = { type: "literal", value: "\u00a0" };
+	if (position === "before") {
+		const first = rest.findIndex((part) => NUMBER_PART_TYPES.has(part.type));
+		rest.splice(first, 0, currency, space);
+	} else {
+		let last = rest.length - 1;
+		while (last >= 0 && !NUMBER_PART_TYPES.has(rest[last]?.type ?? "")) last--;
+		rest.splice(last + 1, 0, space, currency);
+	}
+	return rest;
+}
+
+function currencyLabel(
+	currency: CurrencyDefinition,
+	locales: string | string[] | undefined,
+	options: FormatOptions,
+	approximate: number,
+): string {
+	switch (options.currencyDisplay) {
+		case "code":
+			return currency.code;
+		case "name": {
+			const names = currency.pluralNames;
+			if (names === undefined) return currency.code;
+			const category = new Intl.PluralRules(locales, {
+				minimumFractionDigits: currency.decimalPlaces,
+			}).select(approximate);
+			return category === "one" ? names.one : names.other;
+		}
+		case "narrowSymbol":
+			return currency.narrowSymbol ?? currency.symbol ?? currency.code;
+		default:
+			return currency.symbol ?? currency.code;
+	}
+}
+
+function spliceExactDigits(
+	parts: Intl.NumberFormatPart[],
+	value: string,
+	locales: string | string[] | undefined,
+	useGrouping: boolean,
+): Intl.NumberFormatPart[] {
+	const unsigned = value.startsWith("-") ? value.slice(1) : value;
+	const dotIndex = unsigned.indexOf(".");
+	const intPart = dotIndex === -1 ? unsigned : unsigned.slice(0, dotIndex);
+	const decPart = dotIndex === -1 ? "" : unsigned.slice(dotIndex + 1);
+
+	const integerFormatter = new Intl.NumberFormat(locales, {
+		useGrouping,
+		maximumFractionDigits: 0,
+	});
+	const integerParts = integerFormatter.formatToParts(BigInt(intPart));
+	const localizeDigit = (digit: string) =>
+		integerFormatter.format(Number(digit));
+
+	const result: Intl.NumberFormatPart[] = [];
+	let integerDone = false;
+	for (const part of parts) {
+		if (part.type === "integer" || part.type === "group") {
+			if (!integerDone) {
+				result.push(...integerParts);
+				integerDone = true;
+			}
+		} else if (part.type === "fraction") {
+			result.push({
+				type: "fraction",
+				value: decPart.replace(/\d/g, localizeDigit),
+			});
+		} else {
+			result.push(part);
+		}
+	}
+	return result;
+}
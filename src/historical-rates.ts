@@ -0,0 +1,341 @@
+import type { CurrencyDefinition } from "./currency";
+import { codeOf, ExchangeRates, type ResolvedRate } from "./exchange-rates";
+import { Rate, type RateInput } from "./rate";
+
+/**
+ * What to do when no rate is effective at the requested date:
+ * - `previous`: use the most recent earlier rate for the pair
+ * - `error`: treat the pair as missing
+ * - `interpolate`: interpolate linearly between the rates either side of the gap
+ */
+export type RateGapPolicy = "previous" | "error" | "interpolate";
+
+export interface HistoricalRatesOptions {
+	base?: CurrencyDefinition | string;
+	gapPolicy?: RateGapPolicy;
+}
+
+/**
+ * One published rate. `effectiveTo` is exclusive; when omitted the rate
+ * stays effective until the next entry for the same pair.
+ */
+export interface HistoricalRateEntry {
+	from: CurrencyDefinition | string;
+	to: CurrencyDefinition | string;
+	rate: RateInput;
+	effectiveFrom: Date | string;
+	effectiveTo?: Date | string;
+}
+
+/** File/JSON shape of a rate history entry; dates are ISO 8601 strings. */
+export interface HistoricalRateEntryJSON {
+	from: string;
+	to: string;
+	rate: number | string;
+	effectiveFrom: string;
+	effectiveTo?: string;
+}
+
+/** Anything that can supply the rate for a pair at a point in time. */
+export interface HistoricalRateSource {
+	getRate(
+		from: CurrencyDefinition | string,
+		to: CurrencyDefinition | string,
+		date: Date | string,
+	): ResolvedRate;
+}
+
+interface StoredRate {
+	rate: Rate;
+	start: number;
+	end: number | undefined;
+}
+
+/** A stored rate resolved at some time, with the start of its entry. */
+interface EffectiveRate {
+	rate: Rate;
+	since: number;
+}
+
+const REQUIRED_FIELDS = ["from", "to", "rate", "effectiveFrom"] as const;
+
+function toTime(date: Date | string, label: string): number {
+	const time = (typeof date === "string" ? new Date(date) : date).getTime();
+	if (Number.isNaN(time)) {
+		throw new Error(`${label} is not a valid date: "${String(date)}"`);
+	}
+	return time;
+}
+
+function toStoredRate(entry: HistoricalRateEntry): [string, StoredRate] {
+	const rate = Rate.from(entry.rate);
+	if (!rate.isPositive()) {
+		throw new Error("Exchange rate must be a finite positive number");
+	}
+	const start = toTime(entry.effectiveFrom, "effectiveFrom");
+	const end =
+		entry.effectiveTo === undefined
+			? undefined
+			: toTime(entry.effectiveTo, "effectiveTo");
+	if (end !== undefined && end <= start) {
+		throw new Error("effectiveTo must be after effectiveFrom");
+	}
+	return [`${codeOf(entry.from)}/${codeOf(entry.to)}`, { rate, start, end }];
+}
+
+/** Checks one parsed entry, since file input arrives untyped. */
+function assertEntryJSON(
+	entry: unknown,
+	index: number,
+): asserts entry is HistoricalRateEntryJSON {
+	if (typeof entry !== "object" || entry === null) {
+		throw new Error(`Rate history entry ${index} must be an object`);
+	}
+	const fields = entry as Record<string, unknown>;
+	for (const field of REQUIRED_FIELDS) {
+		const value = fields[field];
+		const valid =
+			typeof value === "string" ||
+			(field === "rate" && typeof value === "number");
+		if (!valid) {
+			throw new Error(
+				value === undefined
+					? `Rate history entry ${index} is missing "${field}"`
+					: `Rate history entry ${index} has an invalid "${field}"`,
+			);
+		}
+	}
+	const { effectiveTo } = fields;
+	if (effectiveTo !== undefined && typeof effectiveTo !== "string") {
+		throw new Error(`Rate history entry ${index} has an invalid "effectiveTo"`);
+	}
+}
+
+/** Throws unless `later`, which starts no earlier, begins after `earlier` ends. */
+function assertSeparate(
+	key: string,
+	earlier: StoredRate | undefined,
+	later: StoredRate | undefined,
+): void {
+	if (earlier === undefined || later === undefined) return;
+	const from = (time: number) => new Date(time).toISOString();
+	if (earlier.start === later.start) {
+		throw new Error(
+			`Duplicate ${key} rate effective from ${from(later.start)}`,
+		);
+	}
+	if (earlier.end !== undefined && earlier.end > later.start) {
+		throw new Error(
+			`Overlapping ${key} rates effective from ${from(earlier.start)} and ${from(later.start)}`,
+		);
+	}
+}
+
+/** Index of the first entry starting after `time`; entries are sorted by start. */
+function upperBound(entries: readonly StoredRate[], time: number): number {
+	let low = 0;
+	let high = entries.length;
+	while (low < high) {
+		const middle = (low + high) >>> 1;
+		if ((entries[middle] as StoredRate).start <= time) {
+			low = middle + 1;
+		} else {
+			high = middle;
+		}
+	}
+	return low;
+}
+
+/** Exact linear interpolation between `(t0, a)` and `(t1, b)` at `t`. */
+function interpolate(a: Rate, b: Rate, t0: number, t1: number, t: number) {
+	const span = BigInt(t1 - t0);
+	const elapsed = BigInt(t - t0);
+	const p1q2 = a.numerator * b.denominator;
+	const p2q1 = b.numerator * a.denominator;
+	return Rate.fraction(
+		p1q2 * span + (p2q1 - p1q2) * elapsed,
+		a.denominator * b.denominator * span,
+	);
+}
+
+/**
+ * Time-stamped rate history. `asOf(date)` yields an `ExchangeRates` snapshot,
+ * so inverse and cross rates are derived exactly as for a live table.
+ * When a pair is quoted in both directions, the more recently effective
+ * entry is used.
+ */
+export class HistoricalRates implements HistoricalRateSource {
+	readonly #history = new Map<string, StoredRate[]>();
+	readonly #base: string | undefined;
+	readonly #gapPolicy: RateGapPolicy;
+
+	constructor(options: HistoricalRatesOptions = {}) {
+		this.#base = options.base === undefined ? undefined : codeOf(options.base);
+		this.#gapPolicy = options.gapPolicy ?? "previous";
+	}
+
+	static fromJSON(
+		entries: readonly HistoricalRateEntryJSON[],
+		options?: HistoricalRatesOptions,
+	): HistoricalRates {
+		if (!Array.isArray(entries)) {
+			throw new Error("Rate history JSON must be an array of entries");
+		}
+		// Group first so each pair is sorted and checked for overlaps once
+		const pairs = new Map<string, StoredRate[]>();
+		for (const [index, entry] of entries.entries()) {
+			assertEntryJSON(entry, index);
+			const [key, stored] = toStoredRate(entry);
+			const list = pairs.get(key) ?? [];
+			list.push(stored);
+			pairs.set(key, list);
+		}
+
+		const history = new HistoricalRates(options);
+		for (const [key, list] of pairs) {
+			list.sort((a, b) => a.start - b.start);
+			for (let i = 1; i < list.length; i++) {
+				assertSeparate(key, list[i - 1], list[i]);
+			}
+			history.#history.set(key, list);
+		}
+		return history;
+	}
+
+	/**
+	 * Parses CSV with a header row naming the columns `from`, `to`, `rate`,
+	 * `effectiveFrom` and optionally `effectiveTo`, in any order.
+	 */
+	static fromCSV(
+		text: string,
+		options?: HistoricalRatesOptions,
+	): HistoricalRates {
+		const lines = text.split(/\r?\n/);
+		const header = (lines[0] ?? "").split(",").map((cell) => cell.trim());
+		for (const column of REQUIRED_FIELDS) {
+			if (!header.includes(column)) {
+				throw new Error(`Rate history CSV is missing the "${column}" column`);
+			}
+		}
+
+		const entries: HistoricalRateEntryJSON[] = [];
+		for (let i = 1; i < lines.length; i++) {
+			const line = lines[i]?.trim();
+			if (!line) continue;
+			const cells = line.split(",").map((cell) => cell.trim());
+			if (cells.length !== header.length) {
+				throw new Error(
+					`Rate history CSV line ${i + 1} has ${cells.length} fields, expected ${header.length}`,
+				);
+			}
+			const row = new Map(header.map((column, j) => [column, cells[j] ?? ""]));
+			entries.push({
+				from: row.get("from") ?? "",
+				to: row.get("to") ?? "",
+				rate: row.get("rate") ?? "",
+				effectiveFrom: row.get("effectiveFrom") ?? "",
+				effectiveTo: row.get("effectiveTo") || undefined,
+			});
+		}
+		return HistoricalRates.fromJSON(entries, options);
+	}
+
+	/** Loads a `.csv` or `.json` history file from disk (Node and Bun only). */
+	static async fromFile(
+		path: string,
+		options?: HistoricalRatesOptions,
+	): Promise<HistoricalRates> {
+		const { readFile } = await import("node:fs/promises");
+		const text = await readFile(path, "utf8");
+		if (path.toLowerCase().endsWith(".csv")) {
+			return HistoricalRates.fromCSV(text, options);
+		}
+		if (path.toLowerCase().endsWith(".json")) {
+			return HistoricalRates.fromJSON(JSON.parse(text), options);
+		}
+		throw new Error(`Unsupported rate history file: ${path}`);
+	}
+
+	add(entry: HistoricalRateEntry): this {
+		const [key, stored] = toStoredRate(entry);
+		const entries = this.#history.get(key) ?? [];
+		const index = upperBound(entries, stored.start);
+		assertSeparate(key, entries[index - 1], stored);
+		assertSeparate(key, stored, entries[index]);
+		entries.splice(index, 0, stored);
+		this.#history.set(key, entries);
+		return this;
+	}
+
+	/** The rates in effect at `date`, with gaps filled per the gap policy. */
+	asOf(date: Date | string): ExchangeRates {
+		return this.#snapshot(toTime(date, "Date"), this.#history.keys());
+	}
+
+	getRate(
+		from: CurrencyDefinition | string,
+		to: CurrencyDefinition | string,
+		date: Date | string,
+	): ResolvedRate {
+		const time = toTime(date, "Date");
+		// Only the pairs a direct, inverse or cross rate can be built from
+		const codes = [codeOf(from), codeOf(to)];
+		if (this.#base !== undefined) codes.push(this.#base);
+		const snapshot = this.#snapshot(
+			time,
+			codes.flatMap((a) => codes.map((b) => `${a}/${b}`)),
+		);
+		if (!snapshot.has(from, to)) {
+			throw new Error(
+				`No exchange rate available for ${codeOf(from)}/${codeOf(to)} at ${new Date(time).toISOString()}`,
+			);
+		}
+		return snapshot.getRate(from, to);
+	}
+
+	#snapshot(time: number, keys: Iterable<string>): ExchangeRates {
+		const effective = new Map<string, EffectiveRate>();
+		for (const key of keys) {
+			const entries = this.#history.get(key);
+			const found = entries && this.#rateAt(entries, time);
+			if (found !== undefined) effective.set(key, found);
+		}
+
+		const snapshot = new ExchangeRates({ base: this.#base });
+		for (const [key, { rate, since }] of effective) {
+			const [from, to] = key.split("/");
+			if (from === undefined || to === undefined) continue;
+			// When both directions are quoted, the more recent entry wins
+			const inverse = effective.get(`${to}/${from}`);
+			if (inverse !== undefined && inverse.since > since) continue;
+			snapshot.set(from, to, rate);
+		}
+		return snapshot;
+	}
+
+	#rateAt(entries: StoredRate[], time: number): EffectiveRate | undefined {
+		// The last entry already in effect
+		const index = upperBound(entries, time) - 1;
+		const current = entries[index];
+		if (current === undefined) return undefined;
+		const since = current.start;
+
+		const next = entries[index + 1];
+		const end = current.end ?? next?.start;
+		if (end === undefined || time < end) return { rate: current.rate, since };
+
+		switch (this.#gapPolicy) {
+			case "previous":
+				return { rate: current.rate, since };
+			case "error":
+				return undefined;
+			case "interpolate":
+				return next === undefined
+					? undefined
+					: {
+							rate: interpolate(current.rate, next.rate, end, next.start, time),
+							since,
+						};
+		}
+	}
+}
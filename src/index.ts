@@ -1,8 +1,125 @@
+export {
+	type AmortizationMethod,
+	type AmortizationOptions,
+	type AmortizationPayment,
+	type AmortizationSchedule,
+	amortize,
+	type CompoundingFrequency,
+	type PaymentFrequency,
+} from "./amortization";
 export {
 	Currency,
 	type CurrencyCode,
 	type CurrencyDefinition,
+	type CurrencyLookup,
+	type CurrencyMetadata,
+	type CurrencyResolver,
+	type CurrencySource,
+	type CurrencyStatus,
 	type CurrencyType,
 	defineCurrency,
+	findCurrency,
 } from "./currency";
-export { type FromNumberOptions, Money, type RoundingMode } from "./money";
+export { CurrencyRegistry } from "./currency-registry";
+export {
+	type DayCountConvention,
+	daysBetween,
+	yearFraction,
+} from "./day-count";
+export type { DecimalInput, RoundingMode } from "./decimal";
+export {
+	type AppliedDiscount,
+	applyDiscounts,
+	type BuyXGetYDiscount,
+	type DiscountedLine,
+	type DiscountOptions,
+	type DiscountResult,
+	type DiscountRule,
+	type DiscountStacking,
+	type FixedDiscount,
+	type PercentDiscount,
+	type TieredDiscount,
+} from "./discount";
+export {
+	MoneyJSONError,
+	type MoneyJSONField,
+	MoneyParseError,
+} from "./errors";
+export {
+	type ExchangeRateProvider,
+	type ExchangeRateSource,
+	ExchangeRates,
+	type ExchangeRatesJSON,
+	type RateDerivation,
+	type ResolvedRate,
+} from "./exchange-rates";
+export type { FormatOptions } from "./format";
+export {
+	type HistoricalRateEntry,
+	type HistoricalRateEntryJSON,
+	type HistoricalRateSource,
+	HistoricalRates,
+	type HistoricalRatesOptions,
+	type RateGapPolicy,
+} from "./historical-rates";
+export {
+	type AccrueInterestOptions,
+	accrueInterest,
+	aprToApy,
+	apyToApr,
+	type InterestCompounding,
+	type InterestPeriod,
+} from "./interest";
+export {
+	Invoice,
+	type InvoiceJSON,
+	type InvoiceLine,
+	type InvoiceLineJSON,
+	type InvoiceOptions,
+	type InvoiceRounding,
+	type LineItem,
+} from "./invoice";
+export {
+	type Account,
+	type AccountHistoryLine,
+	type AccountType,
+	type JournalEntry,
+	type JournalEntryJSON,
+	Ledger,
+	type LedgerJSON,
+	type Posting,
+	type PostingJSON,
+	type PostingSide,
+	type TrialBalance,
+	type TrialBalanceRow,
+} from "./ledger";
+export {
+	type AllocateByRatiosOptions,
+	type AllocationTieBreak,
+	type Conversion,
+	type FromNumberOptions,
+	Money,
+	type MoneyBigIntJSON,
+	type MoneyJSON,
+	type ProrateOptions,
+	type ProrationGranularity,
+} from "./money";
+export { type BagConversion, MoneyBag } from "./money-bag";
+export {
+	type MoneyBound,
+	type MoneyBucket,
+	type MoneyBucketing,
+	MoneyRange,
+	type MoneyRangeOptions,
+} from "./money-range";
+export { Rate, type RateInput } from "./rate";
+export {
+	calculateTax,
+	extractTax,
+	type TaxAmount,
+	type TaxableLine,
+	type TaxBreakdown,
+	type TaxLineBreakdown,
+	type TaxOptions,
+	type TaxRate,
+} from "./tax";
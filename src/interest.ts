@@ -0,0 +1,130 @@
+import { type CompoundingFrequency, PERIODS_PER_YEAR } from "./amortization";
+import { type DayCountConvention, yearFraction } from "./day-count";
+import type { RoundingMode } from "./decimal";
+import { Money } from "./money";
+import { powerRate, Rate, type RateInput, rootRate, roundRate } from "./rate";
+
+/** `simple` interest, or compound interest at the given frequency. */
+export type InterestCompounding = CompoundingFrequency | "simple";
+
+/** A date range, or a length in years such as `1`, `"0.5"` or `[3n, 12n]`. */
+export type InterestPeriod = { start: Date; end: Date } | { years: RateInput };
+
+export interface AccrueInterestOptions {
+	compounding?: InterestCompounding;
+	/** Used to measure date ranges; defaults to ACT/365 */
+	dayCount?: DayCountConvention;
+	rounding?: RoundingMode;
+}
+
+// Decimal places of compound growth factors, before guard digits
+const GROWTH_PRECISION = 20n;
+
+// Extra digits carried while compounding, beyond those the result keeps
+const GUARD_DIGITS = 10n;
+
+/**
+ * `base^exponent` on integers scaled by `scale`, by repeated squaring. Each
+ * product is truncated back to `scale`, so callers add guard digits.
+ */
+function scaledPower(base: bigint, exponent: bigint, scale: bigint): bigint {
+	let result = scale;
+	let square = base;
+	for (let e = exponent; e > 0n; e >>= 1n) {
+		if (e & 1n) result = (result * square) / scale;
+		if (e > 1n) square = (square * square) / scale;
+	}
+	return result;
+}
+
+/**
+ * Interest earned on `money` at a nominal `annualRate` (in percent) over
+ * `period`. The result is rounded once, so it never drifts the way repeated
+ * `incrementByPercent` does. Compound growth is carried to 20 decimal places
+ * plus guard digits for the amount and the number of periods.
+ *
+ * Compound interest applies whole compounding periods, then simple interest
+ * for any remaining part of a period.
+ */
+export function accrueInterest(
+	money: Money,
+	annualRate: RateInput,
+	period: InterestPeriod,
+	options: AccrueInterestOptions = {},
+): Money {
+	const {
+		compounding = "simple",
+		dayCount = "ACT/365",
+		rounding = "round",
+	} = options;
+
+	const years =
+		"years" in period
+			? Rate.from(period.years)
+			: yearFraction(period.start, period.end, dayCount);
+	if (years.isNegative()) {
+		throw new Error("Interest period must not be negative");
+	}
+	const rate = Rate.from(annualRate).divide(100n);
+	const minor = money.toMinorBigInt();
+
+	let growth: Rate;
+	if (compounding === "simple") {
+		growth = rate.multiply(years).add(1n);
+	} else {
+		const perPeriod = rate.divide(BigInt(PERIODS_PER_YEAR[compounding]));
+		const periods = years.multiply(BigInt(PERIODS_PER_YEAR[compounding]));
+		const whole = roundRate(periods, "floor");
+		const digits =
+			GROWTH_PRECISION +
+			GUARD_DIGITS +
+			BigInt(minor.toString().length + whole.toString().length);
+		const scale = 10n ** digits;
+		const base = perPeriod.add(1n);
+		const grown = scaledPower(
+			(base.numerator * scale) / base.denominator,
+			whole,
+			scale,
+		);
+		growth = Rate.fraction(grown, scale).multiply(
+			perPeriod.multiply(periods.subtract(whole)).add(1n),
+		);
+	}
+
+	const interest = growth.subtract(1n).multiply(minor);
+	return Money.fromMinorBigInt(money.currency, roundRate(interest, rounding), {
+		unbounded: money.isUnbounded(),
+	});
+}
+
+/**
+ * Annual percentage yield for a nominal `apr` compounded `compounding`
+ * times a year, both in percent: `(1 + apr/m)^m - 1`. Exact.
+ */
+export function aprToApy(
+	apr: RateInput,
+	compounding: CompoundingFrequency,
+): Rate {
+	const m = BigInt(PERIODS_PER_YEAR[compounding]);
+	const perPeriod = Rate.from(apr).divide(100n).divide(m);
+	return powerRate(perPeriod.add(1n), m).subtract(1n).multiply(100n);
+}
+
+/**
+ * Nominal annual rate compounded `compounding` times a year that yields
+ * `apy`, both in percent: `m * ((1 + apy)^(1/m) - 1)`. The root is taken to
+ * 30 decimal places, rounded down.
+ */
+export function apyToApr(
+	apy: RateInput,
+	compounding: CompoundingFrequency,
+): Rate {
+	const m = BigInt(PERIODS_PER_YEAR[compounding]);
+	const growth = Rate.from(apy).divide(100n).add(1n);
+	if (!growth.isPositive()) {
+		throw new Error("APY must be greater than -100%");
+	}
+	return rootRate(growth, m)
+		.subtract(1n)
+		.multiply(m * 100n);
+}
@@ -0,0 +1,318 @@
+import type { CurrencyDefinition } from "./currency";
+import type { DecimalInput, RoundingMode } from "./decimal";
+import {
+	assertCurrenciesMatch,
+	Money,
+	type MoneyBigIntJSON,
+	type MoneyJSON,
+} from "./money";
+import { allocateRounded, Rate, type RateInput, roundRate } from "./rate";
+import { calculateTax, type TaxAmount, type TaxRate } from "./tax";
+
+/**
+ * One billed line: `quantity` × `unitPrice`, less an optional fixed or
+ * percentage discount. `exempt` works as in `TaxableLine`.
+ */
+export interface LineItem {
+	description?: string;
+	quantity: DecimalInput;
+	unitPrice: Money;
+	discount?: Money | { percent: RateInput };
+	exempt?: boolean | readonly string[];
+}
+
+/**
+ * - `line`: every line's amount, discount and tax is rounded on its own
+ * - `document`: lines are kept exact, each total is rounded once and
+ *   allocated back to the lines with the largest-remainder method
+ */
+export type InvoiceRounding = "line" | "document";
+
+export interface InvoiceOptions {
+	taxRates?: readonly TaxRate[];
+	shipping?: Money;
+	/** Whether `taxRates` also apply to shipping; defaults to false */
+	taxShipping?: boolean;
+	roundingLevel?: InvoiceRounding;
+	rounding?: RoundingMode;
+}
+
+export interface InvoiceLine {
+	description?: string;
+	quantity: Rate;
+	unitPrice: Money;
+	/** `quantity × unitPrice`, rounded */
+	amount: Money;
+	discount: Money;
+	/** `amount - discount` */
+	net: Money;
+	taxes: TaxAmount[];
+	tax: Money;
+	/** `net + tax` */
+	total: Money;
+}
+
+type AmountJSON = MoneyJSON | MoneyBigIntJSON;
+
+export interface InvoiceLineJSON {
+	description?: string;
+	quantity: string;
+	unitPrice: AmountJSON;
+	amount: AmountJSON;
+	discount: AmountJSON;
+	net: AmountJSON;
+	taxes: { id: string; amount: AmountJSON }[];
+	tax: AmountJSON;
+	total: AmountJSON;
+}
+
+export interface InvoiceJSON {
+	currency: string;
+	lines: InvoiceLineJSON[];
+	subtotal: AmountJSON;
+	discount: AmountJSON;
+	net: AmountJSON;
+	shipping: AmountJSON;
+	shippingTax: AmountJSON;
+	taxes: { id: string; amount: AmountJSON }[];
+	tax: AmountJSON;
+	total: AmountJSON;
+}
+
+function amountJSON(money: Money): AmountJSON {
+	return money.isUnbounded() ? money.toBigIntJSON() : money.toJSON();
+}
+
+function taxesJSON(taxes: readonly TaxAmount[]) {
+	return taxes.map((tax) => ({ id: tax.id, amount: amountJSON(tax.amount) }));
+}
+
+/**
+ * Immutable single-currency invoice. Lines, totals and per-rate taxes are
+ * computed when the invoice is created and always reconcile to the minor
+ * unit: line totals plus shipping and its tax add up to `total`, and
+ * `subtotal - discount + shipping + tax === total`.
+ */
+export class Invoice {
+	readonly #currency: CurrencyDefinition;
+	readonly #items: readonly LineItem[];
+	readonly #options: InvoiceOptions;
+	readonly #lines: InvoiceLine[];
+	readonly #shippingTax: Money;
+	readonly #taxes: TaxAmount[];
+
+	private constructor(
+		currency: CurrencyDefinition,
+		items: readonly LineItem[],
+		options: InvoiceOptions,
+	) {
+		this.#currency = currency;
+		this.#items = items;
+		this.#options = options;
+
+		const { roundingLevel = "line", rounding = "round" } = options;
+		for (const item of items) {
+			assertCurrenciesMatch(currency, item.unitPrice.currency, "invoice");
+			if (item.discount instanceof Money) {
+				assertCurrenciesMatch(currency, item.discount.currency, "invoice");
+			}
+		}
+		const shipping = options.shipping ?? this.#zero;
+		assertCurrenciesMatch(currency, shipping.currency, "invoice");
+
+		const quantities = items.map((item) => Rate.from(item.quantity));
+		const exactAmounts = items.map((item, i) =>
+			(quantities[i] ?? Rate.from(0n)).multiply(item.unitPrice.toMinorBigInt()),
+		);
+
+		let amounts: bigint[];
+		let discounts: bigint[];
+		if (roundingLevel === "document") {
+			// One allocation fixes the nets; the discounts split whatever the
+			// rounded subtotal leaves, so amount = net + discount on every line
+			const exactDiscounts = items.map((item, i) =>
+				discountOf(item, exactAmounts[i] ?? Rate.from(0n)),
+			);
+			const nets = allocateRounded(
+				exactAmounts.map((amount, i) =>
+					amount.subtract(exactDiscounts[i] ?? Rate.from(0n)),
+				),
+				rounding,
+			);
+			const subtotal = roundRate(
+				exactAmounts.reduce((sum, amount) => sum.add(amount), Rate.from(0n)),
+				rounding,
+			);
+			discounts = allocateRounded(
+				exactDiscounts,
+				rounding,
+				subtotal - nets.reduce((sum, net) => sum + net, 0n),
+			);
+			amounts = nets.map((net, i) => net + (discounts[i] ?? 0n));
+		} else {
+			amounts = exactAmounts.map((amount) => roundRate(amount, rounding));
+			discounts = items.map((item, i) =>
+				roundRate(discountOf(item, Rate.from(amounts[i] ?? 0n)), rounding),
+			);
+		}
+
+		const unbounded =
+			shipping.isUnbounded() ||
+			items.some((item) => item.unitPrice.isUnbounded());
+		const toMoney = (minor: bigint) =>
+			Money.fromMinorBigInt(currency, minor, { unbounded });
+		const nets = amounts.map((amount, i) =>
+			toMoney(amount - (discounts[i] ?? 0n)),
+		);
+
+		// Shipping, when taxed, is the last taxable line
+		const taxable = nets.map((net, i) => ({
+			amount: net,
+			exempt: items[i]?.exempt,
+		}));
+		if (options.taxShipping) taxable.push({ amount: shipping, exempt: false });
+		const taxRates = options.taxRates ?? [];
+		const breakdown =
+			taxable.length > 0
+				? calculateTax(taxable, taxRates, {
+						roundingLevel: roundingLevel === "document" ? "invoice" : "line",
+						rounding,
+					})
+				: undefined;
+
+		this.#lines = items.map((item, i): InvoiceLine => {
+			const net = nets[i] ?? this.#zero;
+			const lineTax = breakdown?.lines[i];
+			const tax = lineTax?.tax ?? this.#zero;
+			return {
+				description: item.description,
+				quantity: quantities[i] ?? Rate.from(0n),
+				unitPrice: item.unitPrice,
+				amount: toMoney(amounts[i] ?? 0n),
+				discount: toMoney(discounts[i] ?? 0n),
+				net,
+				taxes: lineTax?.taxes ?? [],
+				tax,
+				total: net.add(tax),
+			};
+		});
+		this.#shippingTax = options.taxShipping
+			? (breakdown?.lines[items.length]?.tax ?? this.#zero)
+			: this.#zero;
+		this.#taxes =
+			breakdown?.taxes ??
+			taxRates.map((rate) => ({ id: rate.id, amount: this.#zero }));
+	}
+
+	/** Builds an invoice in `currency`; every amount must share it. */
+	static create(
+		currency: CurrencyDefinition,
+		items: readonly LineItem[] = [],
+		options: InvoiceOptions = {},
+	): Invoice {
+		return new Invoice(currency, [...items], options);
+	}
+
+	/** Returns a new invoice with `item` appended. */
+	addLine(item: LineItem): Invoice {
+		return new Invoice(this.#currency, [...this.#items, item], this.#options);
+	}
+
+	get currency(): CurrencyDefinition {
+		return this.#currency;
+	}
+
+	get lines(): readonly InvoiceLine[] {
+		return this.#lines;
+	}
+
+	/** Sum of line amounts before discounts */
+	get subtotal(): Money {
+		return this.#sum(this.#lines.map((line) => line.amount));
+	}
+
+	get discount(): Money {
+		return this.#sum(this.#lines.map((line) => line.discount));
+	}
+
+	/** `subtotal - discount` */
+	get net(): Money {
+		return this.#sum(this.#lines.map((line) => line.net));
+	}
+
+	get shipping(): Money {
+		return this.#options.shipping ?? this.#zero;
+	}
+
+	get shippingTax(): Money {
+		return this.#shippingTax;
+	}
+
+	/** Tax per rate, including any tax on shipping */
+	get taxes(): readonly TaxAmount[] {
+		return this.#taxes;
+	}
+
+	get tax(): Money {
+		return this.#sum(this.#taxes.map((tax) => tax.amount));
+	}
+
+	get total(): Money {
+		return this.net.add(this.shipping).add(this.tax);
+	}
+
+	/** Summary with every amount in minor units, as `Money#toJSON` emits. */
+	toJSON(): InvoiceJSON {
+		return {
+			currency: this.#currency.code,
+			lines: this.#lines.map((line) => ({
+				description: line.description,
+				quantity: line.quantity.toString(),
+				unitPrice: amountJSON(line.unitPrice),
+				amount: amountJSON(line.amount),
+				discount: amountJSON(line.discount),
+				net: amountJSON(line.net),
+				taxes: taxesJSON(line.taxes),
+				tax: amountJSON(line.tax),
+				total: amountJSON(line.total),
+			})),
+			subtotal: amountJSON(this.subtotal),
+			discount: amountJSON(this.discount),
+			net: amountJSON(this.net),
+			shipping: amountJSON(this.shipping),
+			shippingTax: amountJSON(this.#shippingTax),
+			taxes: taxesJSON(this.#taxes),
+			tax: amountJSON(this.tax),
+			total: amountJSON(this.total),
+		};
+	}
+
+	get #zero(): Money {
+		return Money.fromMinor(this.#currency, 0);
+	}
+
+	#sum(items: Money[]): Money {
+		return Money.sum([this.#zero, ...items]);
+	}
+}
+
+/** Exact discount on a line whose exact amount is `amount`, in minor units. */
+function discountOf(item: LineItem, amount: Rate): Rate {
+	const { discount } = item;
+	if (discount === undefined) return Rate.from(0n);
+	if (discount instanceof Money) {
+		const fixed = Rate.from(discount.toMinorBigInt());
+		if (fixed.isNegative()) {
+			throw new Error("Line discount must not be negative");
+		}
+		if (fixed.compare(amount) > 0) {
+			throw new Error("Line discount must not exceed the line amount");
+		}
+		return fixed;
+	}
+	const percent = Rate.from(discount.percent);
+	if (percent.isNegative() || percent.compare(100n) > 0) {
+		throw new Error("Discount percent must be between 0 and 100");
+	}
+	return amount.multiply(percent).divide(100n);
+}
@@ -0,0 +1,221 @@
+import type { CurrencyStatus } from "./currency";
+
+function iso<C extends string>(
+	code: C,
+	numericCode: number,
+	decimalPlaces: number,
+	name: string,
+	status: CurrencyStatus = "active",
+) {
+	return { code, decimalPlaces, numericCode, name, status };
+}
+
+/**
+ * ISO 4217 currencies with a defined minor unit. Codes whose minor unit is
+ * "N.A." (precious metals, XDR, bond market units, XTS, XXX) are left out;
+ * create them with `defineCurrency` and an explicit precision.
+ */
+export const ISO_4217 = {
+	AED: iso("AED", 784, 2, "UAE Dirham"),
+	AFN: iso("AFN", 971, 2, "Afghani"),
+	ALL: iso("ALL", 8, 2, "Lek"),
+	AMD: iso("AMD", 51, 2, "Armenian Dram"),
+	AOA: iso("AOA", 973, 2, "Kwanza"),
+	ARS: iso("ARS", 32, 2, "Argentine Peso"),
+	AUD: iso("AUD", 36, 2, "Australian Dollar"),
+	AWG: iso("AWG", 533, 2, "Aruban Florin"),
+	AZN: iso("AZN", 944, 2, "Azerbaijan Manat"),
+	BAM: iso("BAM", 977, 2, "Convertible Mark"),
+	BBD: iso("BBD", 52, 2, "Barbados Dollar"),
+	BDT: iso("BDT", 50, 2, "Taka"),
+	BHD: iso("BHD", 48, 3, "Bahraini Dinar"),
+	BIF: iso("BIF", 108, 0, "Burundi Franc"),
+	BMD: iso("BMD", 60, 2, "Bermudian Dollar"),
+	BND: iso("BND", 96, 2, "Brunei Dollar"),
+	BOB: iso("BOB", 68, 2, "Boliviano"),
+	BOV: iso("BOV", 984, 2, "Mvdol"),
+	BRL: iso("BRL", 986, 2, "Brazilian Real"),
+	BSD: iso("BSD", 44, 2, "Bahamian Dollar"),
+	BTN: iso("BTN", 64, 2, "Ngultrum"),
+	BWP: iso("BWP", 72, 2, "Pula"),
+	BYN: iso("BYN", 933, 2, "Belarusian Ruble"),
+	BZD: iso("BZD", 84, 2, "Belize Dollar"),
+	CAD: iso("CAD", 124, 2, "Canadian Dollar"),
+	CDF: iso("CDF", 976, 2, "Congolese Franc"),
+	CHE: iso("CHE", 947, 2, "WIR Euro"),
+	CHF: iso("CHF", 756, 2, "Swiss Franc"),
+	CHW: iso("CHW", 948, 2, "WIR Franc"),
+	CLF: iso("CLF", 990, 4, "Unidad de Fomento"),
+	CLP: iso("CLP", 152, 0, "Chilean Peso"),
+	CNY: iso("CNY", 156, 2, "Yuan Renminbi"),
+	COP: iso("COP", 170, 2, "Colombian Peso"),
+	COU: iso("COU", 970, 2, "Unidad de Valor Real"),
+	CRC: iso("CRC", 188, 2, "Costa Rican Colon"),
+	CUP: iso("CUP", 192, 2, "Cuban Peso"),
+	CVE: iso("CVE", 132, 2, "Cabo Verde Escudo"),
+	CZK: iso("CZK", 203, 2, "Czech Koruna"),
+	DJF: iso("DJF", 262, 0, "Djibouti Franc"),
+	DKK: iso("DKK", 208, 2, "Danish Krone"),
+	DOP: iso("DOP", 214, 2, "Dominican Peso"),
+	DZD: iso("DZD", 12, 2, "Algerian Dinar"),
+	EGP: iso("EGP", 818, 2, "Egyptian Pound"),
+	ERN: iso("ERN", 232, 2, "Nakfa"),
+	ETB: iso("ETB", 230, 2, "Ethiopian Birr"),
+	EUR: iso("EUR", 978, 2, "Euro"),
+	FJD: iso("FJD", 242, 2, "Fiji Dollar"),
+	FKP: iso("FKP", 238, 2, "Falkland Islands Pound"),
+	GBP: iso("GBP", 826, 2, "Pound Sterling"),
+	GEL: iso("GEL", 981, 2, "Lari"),
+	GHS: iso("GHS", 936, 2, "Ghana Cedi"),
+	GIP: iso("GIP", 292, 2, "Gibraltar Pound"),
+	GMD: iso("GMD", 270, 2, "Dalasi"),
+	GNF: iso("GNF", 324, 0, "Guinean Franc"),
+	GTQ: iso("GTQ", 320, 2, "Quetzal"),
+	GYD: iso("GYD", 328, 2, "Guyana Dollar"),
+	HKD: iso("HKD", 344, 2, "Hong Kong Dollar"),
+	HNL: iso("HNL", 340, 2, "Lempira"),
+	HTG: iso("HTG", 332, 2, "Gourde"),
+	HUF: iso("HUF", 348, 2, "Forint"),
+	IDR: iso("IDR", 360, 2, "Rupiah"),
+	ILS: iso("ILS", 376, 2, "New Israeli Sheqel"),
+	INR: iso("INR", 356, 2, "Indian Rupee"),
+	IQD: iso("IQD", 368, 3, "Iraqi Dinar"),
+	IRR: iso("IRR", 364, 2, "Iranian Rial"),
+	ISK: iso("ISK", 352, 0, "Iceland Krona"),
+	JMD: iso("JMD", 388, 2, "Jamaican Dollar"),
+	JOD: iso("JOD", 400, 3, "Jordanian Dinar"),
+	JPY: iso("JPY", 392, 0, "Yen"),
+	KES: iso("KES", 404, 2, "Kenyan Shilling"),
+	KGS: iso("KGS", 417, 2, "Som"),
+	KHR: iso("KHR", 116, 2, "Riel"),
+	KMF: iso("KMF", 174, 0, "Comorian Franc"),
+	KPW: iso("KPW", 408, 2, "North Korean Won"),
+	KRW: iso("KRW", 410, 0, "Won"),
+	KWD: iso("KWD", 414, 3, "Kuwaiti Dinar"),
+	KYD: iso("KYD", 136, 2, "Cayman Islands Dollar"),
+	KZT: iso("KZT", 398, 2, "Tenge"),
+	LAK: iso("LAK", 418, 2, "Lao Kip"),
+	LBP: iso("LBP", 422, 2, "Lebanese Pound"),
+	LKR: iso("LKR", 144, 2, "Sri Lanka Rupee"),
+	LRD: iso("LRD", 430, 2, "Liberian Dollar"),
+	LSL: iso("LSL", 426, 2, "Loti"),
+	LYD: iso("LYD", 434, 3, "Libyan Dinar"),
+	MAD: iso("MAD", 504, 2, "Moroccan Dirham"),
+	MDL: iso("MDL", 498, 2, "Moldovan Leu"),
+	MGA: iso("MGA", 969, 2, "Malagasy Ariary"),
+	MKD: iso("MKD", 807, 2, "Denar"),
+	MMK: iso("MMK", 104, 2, "Kyat"),
+	MNT: iso("MNT", 496, 2, "Tugrik"),
+	MOP: iso("MOP", 446, 2, "Pataca"),
+	MRU: iso("MRU", 929, 2, "Ouguiya"),
+	MUR: iso("MUR", 480, 2, "Mauritius Rupee"),
+	MVR: iso("MVR", 462, 2, "Rufiyaa"),
+	MWK: iso("MWK", 454, 2, "Malawi Kwacha"),
+	MXN: iso("MXN", 484, 2, "Mexican Peso"),
+	MXV: iso("MXV", 979, 2, "Mexican Unidad de Inversion (UDI)"),
+	MYR: iso("MYR", 458, 2, "Malaysian Ringgit"),
+	MZN: iso("MZN", 943, 2, "Mozambique Metical"),
+	NAD: iso("NAD", 516, 2, "Namibia Dollar"),
+	NGN: iso("NGN", 566, 2, "Naira"),
+	NIO: iso("NIO", 558, 2, "Cordoba Oro"),
+	NOK: iso("NOK", 578, 2, "Norwegian Krone"),
+	NPR: iso("NPR", 524, 2, "Nepalese Rupee"),
+	NZD: iso("NZD", 554, 2, "New Zealand Dollar"),
+	OMR: iso("OMR", 512, 3, "Rial Omani"),
+	PAB: iso("PAB", 590, 2, "Balboa"),
+	PEN: iso("PEN", 604, 2, "Sol"),
+	PGK: iso("PGK", 598, 2, "Kina"),
+	PHP: iso("PHP", 608, 2, "Philippine Peso"),
+	PKR: iso("PKR", 586, 2, "Pakistan Rupee"),
+	PLN: iso("PLN", 985, 2, "Zloty"),
+	PYG: iso("PYG", 600, 0, "Guarani"),
+	QAR: iso("QAR", 634, 2, "Qatari Rial"),
+	RON: iso("RON", 946, 2, "Romanian Leu"),
+	RSD: iso("RSD", 941, 2, "Serbian Dinar"),
+	RUB: iso("RUB", 643, 2, "Russian Ruble"),
+	RWF: iso("RWF", 646, 0, "Rwanda Franc"),
+	SAR: iso("SAR", 682, 2, "Saudi Riyal"),
+	SBD: iso("SBD", 90, 2, "Solomon Islands Dollar"),
+	SCR: iso("SCR", 690, 2, "Seychelles Rupee"),
+	SDG: iso("SDG", 938, 2, "Sudanese Pound"),
+	SEK: iso("SEK", 752, 2, "Swedish Krona"),
+	SGD: iso("SGD", 702, 2, "Singapore Dollar"),
+	SHP: iso("SHP", 654, 2, "Saint Helena Pound"),
+	SLE: iso("SLE", 925, 2, "Leone"),
+	SOS: iso("SOS", 706, 2, "Somali Shilling"),
+	SRD: iso("SRD", 968, 2, "Surinam Dollar"),
+	SSP: iso("SSP", 728, 2, "South Sudanese Pound"),
+	STN: iso("STN", 930, 2, "Dobra"),
+	SVC: iso("SVC", 222, 2, "El Salvador Colon"),
+	SYP: iso("SYP", 760, 2, "Syrian Pound"),
+	SZL: iso("SZL", 748, 2, "Lilangeni"),
+	THB: iso("THB", 764, 2, "Baht"),
+	TJS: iso("TJS", 972, 2, "Somoni"),
+	TMT: iso("TMT", 934, 2, "Turkmenistan New Manat"),
+	TND: iso("TND", 788, 3, "Tunisian Dinar"),
+	TOP: iso("TOP", 776, 2, "Pa'anga"),
+	TRY: iso("TRY", 949, 2, "Turkish Lira"),
+	TTD: iso("TTD", 780, 2, "Trinidad and Tobago Dollar"),
+	TWD: iso("TWD", 901, 2, "New Taiwan Dollar"),
+	TZS: iso("TZS", 834, 2, "Tanzanian Shilling"),
+	UAH: iso("UAH", 980, 2, "Hryvnia"),
+	UGX: iso("UGX", 800, 0, "Uganda Shilling"),
+	USD: iso("USD", 840, 2, "US Dollar"),
+	USN: iso("USN", 997, 2, "US Dollar (Next day)"),
+	UYI: iso("UYI", 940, 0, "Uruguay Peso en Unidades Indexadas (UI)"),
+	UYU: iso("UYU", 858, 2, "Peso Uruguayo"),
+	UYW: iso("UYW", 927, 4, "Unidad Previsional"),
+	UZS: iso("UZS", 860, 2, "Uzbekistan Sum"),
+	VED: iso("VED", 926, 2, "Bolivar Soberano (digital)"),
+	VES: iso("VES", 928, 2, "Bolivar Soberano"),
+	VND: iso("VND", 704, 0, "Dong"),
+	VUV: iso("VUV", 548, 0, "Vatu"),
+	WST: iso("WST", 882, 2, "Tala"),
+	XAF: iso("XAF", 950, 0, "CFA Franc BEAC"),
+	XCD: iso("XCD", 951, 2, "East Caribbean Dollar"),
+	XCG: iso("XCG", 532, 2, "Caribbean Guilder"),
+	XOF: iso("XOF", 952, 0, "CFA Franc BCEAO"),
+	XPF: iso("XPF", 953, 0, "CFP Franc"),
+	YER: iso("YER", 886, 2, "Yemeni Rial"),
+	ZAR: iso("ZAR", 710, 2, "Rand"),
+	ZMW: iso("ZMW", 967, 2, "Zambian Kwacha"),
+	ZWG: iso("ZWG", 924, 2, "Zimbabwe Gold"),
+
+	// Withdrawn codes, kept for historical records
+	ANG: iso("ANG", 532, 2, "Netherlands Antillean Guilder", "historic"),
+	ATS: iso("ATS", 40, 2, "Schilling", "historic"),
+	BEF: iso("BEF", 56, 0, "Belgian Franc", "historic"),
+	BGN: iso("BGN", 975, 2, "Bulgarian Lev", "historic"),
+	BYR: iso("BYR", 974, 0, "Belarusian Ruble", "historic"),
+	CSD: iso("CSD", 891, 2, "Serbian Dinar", "historic"),
+	CUC: iso("CUC", 931, 2, "Peso Convertible", "historic"),
+	CYP: iso("CYP", 196, 2, "Cyprus Pound", "historic"),
+	DEM: iso("DEM", 276, 2, "Deutsche Mark", "historic"),
+	EEK: iso("EEK", 233, 2, "Kroon", "historic"),
+	ESP: iso("ESP", 724, 0, "Spanish Peseta", "historic"),
+	FIM: iso("FIM", 246, 2, "Markka", "historic"),
+	FRF: iso("FRF", 250, 2, "French Franc", "historic"),
+	GHC: iso("GHC", 288, 2, "Cedi", "historic"),
+	GRD: iso("GRD", 300, 0, "Drachma", "historic"),
+	HRK: iso("HRK", 191, 2, "Kuna", "historic"),
+	IEP: iso("IEP", 372, 2, "Irish Pound", "historic"),
+	ITL: iso("ITL", 380, 0, "Italian Lira", "historic"),
+	LTL: iso("LTL", 440, 2, "Lithuanian Litas", "historic"),
+	LUF: iso("LUF", 442, 0, "Luxembourg Franc", "historic"),
+	LVL: iso("LVL", 428, 2, "Latvian Lats", "historic"),
+	MRO: iso("MRO", 478, 2, "Ouguiya", "historic"),
+	MTL: iso("MTL", 470, 2, "Maltese Lira", "historic"),
+	MZM: iso("MZM", 508, 2, "Mozambique Metical", "historic"),
+	NLG: iso("NLG", 528, 2, "Netherlands Guilder", "historic"),
+	PTE: iso("PTE", 620, 0, "Portuguese Escudo", "historic"),
+	ROL: iso("ROL", 642, 2, "Romanian Leu", "historic"),
+	SDD: iso("SDD", 736, 2, "Sudanese Dinar", "historic"),
+	SIT: iso("SIT", 705, 2, "Tolar", "historic"),
+	SKK: iso("SKK", 703, 2, "Slovak Koruna", "historic"),
+	SLL: iso("SLL", 694, 2, "Leone", "historic"),
+	STD: iso("STD", 678, 2, "Dobra", "historic"),
+	TRL: iso("TRL", 792, 0, "Old Turkish Lira", "historic"),
+	VEF: iso("VEF", 937, 2, "Bolivar", "historic"),
+	ZMK: iso("ZMK", 894, 2, "Zambian Kwacha", "historic"),
+	ZWL: iso("ZWL", 932, 2, "Zimbabwe Dollar", "historic"),
+} as const;
@@ -0,0 +1,310 @@
+import type { CurrencyDefinition, CurrencySource } from "./currency";
+import { findCurrency } from "./currency";
+import {
+	assertCurrenciesMatch,
+	Money,
+	type MoneyBigIntJSON,
+	type MoneyJSON,
+} from "./money";
+import { MoneyBag } from "./money-bag";
+
+/**
+ * Asset and expense accounts carry a debit balance; liability, equity and
+ * income accounts carry a credit balance.
+ */
+export type AccountType =
+	| "asset"
+	| "liability"
+	| "equity"
+	| "income"
+	| "expense";
+
+export interface Account {
+	id: string;
+	currency: CurrencyDefinition;
+	type: AccountType;
+}
+
+export type PostingSide = "debit" | "credit";
+
+export interface Posting {
+	account: string;
+	side: PostingSide;
+	amount: Money;
+}
+
+export interface JournalEntry {
+	id: string;
+	date?: Date;
+	description?: string;
+	postings: readonly Posting[];
+}
+
+/** One line of `Ledger#history`: an entry's effect on a single account. */
+export interface AccountHistoryLine {
+	entry: string;
+	date?: Date;
+	/** Signed change, positive when it increases the account's balance */
+	change: Money;
+	balance: Money;
+}
+
+export interface TrialBalanceRow {
+	account: string;
+	type: AccountType;
+	debit: Money;
+	credit: Money;
+}
+
+export interface TrialBalance {
+	rows: TrialBalanceRow[];
+	debits: MoneyBag;
+	credits: MoneyBag;
+	/** Whether debits equal credits in every currency */
+	balanced: boolean;
+}
+
+export interface PostingJSON {
+	account: string;
+	side: PostingSide;
+	amount: MoneyJSON | MoneyBigIntJSON;
+}
+
+export interface JournalEntryJSON {
+	id: string;
+	date?: string;
+	description?: string;
+	postings: PostingJSON[];
+}
+
+export interface LedgerJSON {
+	accounts: { id: string; currency: string; type: AccountType }[];
+	entries: JournalEntryJSON[];
+}
+
+const DEBIT_NORMAL: readonly AccountType[] = ["asset", "expense"];
+
+/**
+ * Double-entry ledger. Accounts hold a single currency, and every journal
+ * entry must balance its debits and credits in each currency it touches.
+ * Balances are kept as BigInt minor units and returned as unbounded Money,
+ * so they never hit the safe-integer limit.
+ */
+export class Ledger {
+	readonly #accounts = new Map<string, Account>();
+	readonly #entries: JournalEntry[] = [];
+	readonly #entryIds = new Set<string>();
+	/** Debits minus credits per account */
+	readonly #balances = new Map<string, bigint>();
+
+	/**
+	 * Replays a serialized ledger: accounts are opened and entries posted in
+	 * order with the same validation as `post`, so the result is identical
+	 * to the ledger that produced the JSON.
+	 */
+	static fromJSON(json: LedgerJSON, registry?: CurrencySource): Ledger {
+		const ledger = new Ledger();
+		for (const account of json.accounts) {
+			const currency = findCurrency(account.currency, registry);
+			if (currency === undefined) {
+				throw new Error(
+					`Unknown currency "${account.currency}" for account "${account.id}"`,
+				);
+			}
+			ledger.openAccount(account.id, currency, account.type);
+		}
+		for (const entry of json.entries) {
+			ledger.post({
+				id: entry.id,
+				date: entry.date === undefined ? undefined : new Date(entry.date),
+				description: entry.description,
+				postings: entry.postings.map((posting) => ({
+					account: posting.account,
+					side: posting.side,
+					amount: Money.fromJSON(posting.amount, registry),
+				})),
+			});
+		}
+		return ledger;
+	}
+
+	openAccount(
+		id: string,
+		currency: CurrencyDefinition,
+		type: AccountType,
+	): Account {
+		if (this.#accounts.has(id)) {
+			throw new Error(`Account "${id}" already exists`);
+		}
+		const account = { id, currency, type };
+		this.#accounts.set(id, account);
+		this.#balances.set(id, 0n);
+		return account;
+	}
+
+	get accounts(): Account[] {
+		return [...this.#accounts.values()];
+	}
+
+	get entries(): readonly JournalEntry[] {
+		return this.#entries;
+	}
+
+	/**
+	 * Records a journal entry. Throws, leaving the ledger unchanged, if an
+	 * account is unknown, an amount is not positive or in the account's
+	 * currency, or debits and credits differ in any currency.
+	 */
+	post(entry: JournalEntry): JournalEntry {
+		if (this.#entryIds.has(entry.id)) {
+			throw new Error(`Journal entry "${entry.id}" already exists`);
+		}
+		if (entry.postings.length < 2) {
+			throw new Error(
+				`Journal entry "${entry.id}" needs at least two postings`,
+			);
+		}
+		if (entry.date !== undefined && Number.isNaN(entry.date.getTime())) {
+			throw new Error(`Journal entry "${entry.id}" has an invalid date`);
+		}
+
+		// Debit and credit totals in minor units per currency
+		const sides = new Map<
+			string,
+			{ currency: CurrencyDefinition; debit: bigint; credit: bigint }
+		>();
+		for (const posting of entry.postings) {
+			const account = this.#account(posting.account);
+			assertCurrenciesMatch(account.currency, posting.amount.currency, "post");
+			if (!posting.amount.isPositive()) {
+				throw new Error(
+					`Posting to "${posting.account}" must have a positive amount`,
+				);
+			}
+			const code = account.currency.code;
+			const totals = sides.get(code) ?? {
+				currency: account.currency,
+				debit: 0n,
+				credit: 0n,
+			};
+			totals[posting.side] += posting.amount.toMinorBigInt();
+			sides.set(code, totals);
+		}
+		for (const [code, totals] of sides) {
+			if (totals.debit !== totals.credit) {
+				const debit = unbounded(totals.currency, totals.debit);
+				const credit = unbounded(totals.currency, totals.credit);
+				throw new Error(
+					`Journal entry "${entry.id}" does not balance in ${code}: debits ${debit.toDecimalString()}, credits ${credit.toDecimalString()}`,
+				);
+			}
+		}
+
+		const recorded: JournalEntry = {
+			...entry,
+			postings: entry.postings.map((posting) => ({ ...posting })),
+		};
+		for (const posting of recorded.postings) {
+			const minor = posting.amount.toMinorBigInt();
+			const balance = this.#balances.get(posting.account) ?? 0n;
+			this.#balances.set(
+				posting.account,
+				posting.side === "debit" ? balance + minor : balance - minor,
+			);
+		}
+		this.#entries.push(recorded);
+		this.#entryIds.add(recorded.id);
+		return recorded;
+	}
+
+	/** Balance on the account's normal side, e.g. a positive liability. */
+	balance(accountId: string): Money {
+		const account = this.#account(accountId);
+		return this.#toNormal(account, this.#balances.get(accountId) ?? 0n);
+	}
+
+	/** The account's balance after each entry that touched it, in order. */
+	history(accountId: string): AccountHistoryLine[] {
+		const account = this.#account(accountId);
+		const lines: AccountHistoryLine[] = [];
+		let net = 0n;
+		for (const entry of this.#entries) {
+			let change = 0n;
+			let touched = false;
+			for (const posting of entry.postings) {
+				if (posting.account !== accountId) continue;
+				const minor = posting.amount.toMinorBigInt();
+				change += posting.side === "debit" ? minor : -minor;
+				touched = true;
+			}
+			if (!touched) continue;
+			net += change;
+			lines.push({
+				entry: entry.id,
+				date: entry.date,
+				change: this.#toNormal(account, change),
+				balance: this.#toNormal(account, net),
+			});
+		}
+		return lines;
+	}
+
+	/**
+	 * Lists every account's net balance in the debit or credit column, with
+	 * column totals per currency.
+	 */
+	trialBalance(): TrialBalance {
+		const rows = this.accounts.map((account): TrialBalanceRow => {
+			const net = this.#balances.get(account.id) ?? 0n;
+			return {
+				account: account.id,
+				type: account.type,
+				debit: unbounded(account.currency, net > 0n ? net : 0n),
+				credit: unbounded(account.currency, net < 0n ? -net : 0n),
+			};
+		});
+		const debits = MoneyBag.from(rows.map((row) => row.debit));
+		const credits = MoneyBag.from(rows.map((row) => row.credit));
+		return { rows, debits, credits, balanced: debits.equals(credits) };
+	}
+
+	/** Serialized entry log with BigInt amount strings, for `fromJSON`. */
+	toJSON(): LedgerJSON {
+		return {
+			accounts: this.accounts.map((account) => ({
+				id: account.id,
+				currency: account.currency.code,
+				type: account.type,
+			})),
+			entries: this.#entries.map((entry) => ({
+				id: entry.id,
+				date: entry.date?.toISOString(),
+				description: entry.description,
+				postings: entry.postings.map((posting) => ({
+					account: posting.account,
+					side: posting.side,
+					amount: posting.amount.toBigIntJSON(),
+				})),
+			})),
+		};
+	}
+
+	#account(id: string): Account {
+		const account = this.#accounts.get(id);
+		if (account === undefined) {
+			throw new Error(`Unknown account "${id}"`);
+		}
+		return account;
+	}
+
+	#toNormal(account: Account, net: bigint): Money {
+		return unbounded(
+			account.currency,
+			DEBIT_NORMAL.includes(account.type) ? net : -net,
+		);
+	}
+}
+
+function unbounded(currency: CurrencyDefinition, minor: bigint): Money {
+	return Money.fromMinorBigInt(currency, minor, { unbounded: true });
+}
@@ -0,0 +1,146 @@
+import type { CurrencyDefinition, CurrencySource } from "./currency";
+import type { RoundingMode } from "./decimal";
+import { MoneyJSONError } from "./errors";
+import type { ExchangeRateSource, ResolvedRate } from "./exchange-rates";
+import { Money, type MoneyBigIntJSON, type MoneyJSON } from "./money";
+
+/** Result of `MoneyBag#convertTo`: the total and every rate applied. */
+export interface BagConversion {
+	money: Money;
+	rates: ResolvedRate[];
+}
+
+/**
+ * Immutable multi-currency aggregate holding at most one balance per
+ * currency code, e.g. a wallet with USD, EUR and BTC. Balances that reach
+ * zero are kept until `prune()` is called.
+ */
+export class MoneyBag implements Iterable<Money> {
+	readonly #balances: ReadonlyMap<string, Money>;
+
+	private constructor(balances: ReadonlyMap<string, Money>) {
+		this.#balances = balances;
+	}
+
+	static empty(): MoneyBag {
+		return new MoneyBag(new Map());
+	}
+
+	/** Builds a bag, adding together amounts that share a currency. */
+	static from(items: Iterable<Money>): MoneyBag {
+		const balances = new Map<string, Money>();
+		for (const item of items) {
+			const code = item.currency.code;
+			const existing = balances.get(code);
+			balances.set(code, existing === undefined ? item : existing.add(item));
+		}
+		return new MoneyBag(balances);
+	}
+
+	get size(): number {
+		return this.#balances.size;
+	}
+
+	[Symbol.iterator](): Iterator<Money> {
+		return this.#balances.values();
+	}
+
+	currencies(): CurrencyDefinition[] {
+		return [...this].map((money) => money.currency);
+	}
+
+	has(currency: CurrencyDefinition | string): boolean {
+		return this.#balances.has(
+			typeof currency === "string" ? currency : currency.code,
+		);
+	}
+
+	/** The balance in `currency`, or zero when the bag holds none. */
+	get(currency: CurrencyDefinition): Money {
+		return this.#balances.get(currency.code) ?? Money.fromMinor(currency, 0);
+	}
+
+	add(other: Money | MoneyBag): MoneyBag {
+		const items = other instanceof MoneyBag ? [...other] : [other];
+		return MoneyBag.from([...this, ...items]);
+	}
+
+	subtract(other: Money | MoneyBag): MoneyBag {
+		const items = other instanceof MoneyBag ? [...other] : [other];
+		const balances = new Map(this.#balances);
+		for (const item of items) {
+			const existing = balances.get(item.currency.code);
+			const base = existing ?? Money.fromMinor(item.currency, 0);
+			balances.set(item.currency.code, base.subtract(item));
+		}
+		return new MoneyBag(balances);
+	}
+
+	/** A copy without zero balances. */
+	prune(): MoneyBag {
+		return MoneyBag.from([...this].filter((money) => !money.isZero()));
+	}
+
+	isEmpty(): boolean {
+		return this.#balances.size === 0;
+	}
+
+	/** True when every balance is zero (including an empty bag). */
+	isZero(): boolean {
+		return [...this].every((money) => money.isZero());
+	}
+
+	/** Same non-zero balances; zero balances are ignored. */
+	equals(other: MoneyBag): boolean {
+		const mine = this.prune();
+		const theirs = other.prune();
+		if (mine.size !== theirs.size) return false;
+		return [...mine].every(
+			(money) =>
+				theirs.has(money.currency) && theirs.get(money.currency).equals(money),
+		);
+	}
+
+	/**
+	 * Collapses the bag into a single amount in `targetCurrency`. Each balance
+	 * is converted and rounded separately, then summed; the rates used are
+	 * returned in iteration order.
+	 */
+	convertTo(
+		targetCurrency: CurrencyDefinition,
+		rates: ExchangeRateSource,
+		options?: { rounding?: RoundingMode },
+	): BagConversion {
+		const conversions = [...this].map((money) =>
+			money.convertTo(targetCurrency, rates, options),
+		);
+		return {
+			money: Money.sum([
+				Money.fromMinor(targetCurrency, 0),
+				...conversions.map((conversion) => conversion.money),
+			]),
+			rates: conversions.map((conversion) => conversion.rate),
+		};
+	}
+
+	/** One entry per balance; unbounded balances use the string amount form. */
+	toJSON(): (MoneyJSON | MoneyBigIntJSON)[] {
+		return [...this].map((money) =>
+			money.isUnbounded() ? money.toBigIntJSON() : money.toJSON(),
+		);
+	}
+
+	/**
+	 * Restores a bag from the array produced by `toJSON()`. Entries are
+	 * validated with `Money.fromJSON`; repeated currencies are added together.
+	 */
+	static fromJSON(value: unknown, registry?: CurrencySource): MoneyBag {
+		if (!Array.isArray(value)) {
+			throw new MoneyJSONError(
+				"value",
+				"Invalid MoneyBag JSON: expected an array of Money values",
+			);
+		}
+		return MoneyBag.from(value.map((entry) => Money.fromJSON(entry, registry)));
+	}
+}
@@ -0,0 +1,235 @@
+import type { Money } from "./money";
+
+/** One end of a range; `inclusive` says whether `value` itself is in it. */
+export interface MoneyBound {
+	value: Money;
+	inclusive: boolean;
+}
+
+export interface MoneyRangeOptions {
+	/** Lower bound; omit for no lower limit */
+	min?: Money;
+	/** Upper bound; omit for no upper limit */
+	max?: Money;
+	/** Defaults to true */
+	minInclusive?: boolean;
+	/** Defaults to true */
+	maxInclusive?: boolean;
+}
+
+export interface MoneyBucket {
+	range: MoneyRange;
+	values: Money[];
+}
+
+/** Result of `MoneyRange.bucket`. */
+export interface MoneyBucketing {
+	buckets: MoneyBucket[];
+	/** Values that fell in none of the ranges */
+	unmatched: Money[];
+}
+
+/** Picks the tighter of two lower (`direction` 1) or upper (-1) bounds. */
+function tighter(
+	a: MoneyBound | undefined,
+	b: MoneyBound | undefined,
+	direction: 1 | -1,
+): MoneyBound | undefined {
+	if (a === undefined) return b;
+	if (b === undefined) return a;
+	const order = a.value.compare(b.value) * direction;
+	if (order > 0) return a;
+	if (order < 0) return b;
+	return { value: a.value, inclusive: a.inclusive && b.inclusive };
+}
+
+function isEmpty(
+	lower: MoneyBound | undefined,
+	upper: MoneyBound | undefined,
+): boolean {
+	if (lower === undefined || upper === undefined) return false;
+	const order = lower.value.compare(upper.value);
+	return order > 0 || (order === 0 && !(lower.inclusive && upper.inclusive));
+}
+
+/**
+ * Immutable, non-empty interval of amounts in one currency. Either end may
+ * be inclusive, exclusive or open-ended, e.g. `[10.00, 50.00)` for a fee
+ * tier or `> 1000.00` for a fraud threshold.
+ */
+export class MoneyRange {
+	readonly #lower: MoneyBound | undefined;
+	readonly #upper: MoneyBound | undefined;
+
+	private constructor(
+		lower: MoneyBound | undefined,
+		upper: MoneyBound | undefined,
+	) {
+		this.#lower = lower;
+		this.#upper = upper;
+	}
+
+	/**
+	 * Builds a range from optional bounds, inclusive unless stated. Throws if
+	 * the bounds differ in currency or describe an empty range.
+	 */
+	static from(options: MoneyRangeOptions): MoneyRange {
+		const { min, max, minInclusive = true, maxInclusive = true } = options;
+		const lower =
+			min === undefined ? undefined : { value: min, inclusive: minInclusive };
+		const upper =
+			max === undefined ? undefined : { value: max, inclusive: maxInclusive };
+		if (isEmpty(lower, upper)) {
+			throw new Error("Money range must not be empty");
+		}
+		return new MoneyRange(lower, upper);
+	}
+
+	/** `[min, max]` */
+	static closed(min: Money, max: Money): MoneyRange {
+		return MoneyRange.from({ min, max });
+	}
+
+	/** `[min, max)`, the usual shape of a tier */
+	static closedOpen(min: Money, max: Money): MoneyRange {
+		return MoneyRange.from({ min, max, maxInclusive: false });
+	}
+
+	/** `[min, ∞)` */
+	static atLeast(min: Money): MoneyRange {
+		return MoneyRange.from({ min });
+	}
+
+	/** `(-∞, max]` */
+	static atMost(max: Money): MoneyRange {
+		return MoneyRange.from({ max });
+	}
+
+	/**
+	 * Consecutive tiers split at ascending `thresholds`:
+	 * `(-∞, t0)`, `[t0, t1)`, ..., `[tn, ∞)`.
+	 */
+	static tiers(thresholds: readonly Money[]): MoneyRange[] {
+		const first = thresholds[0];
+		if (first === undefined) {
+			throw new Error("Tiers require at least one threshold");
+		}
+		const ranges = [MoneyRange.from({ max: first, maxInclusive: false })];
+		for (let i = 0; i < thresholds.length; i++) {
+			const min = thresholds[i] as Money;
+			const max = thresholds[i + 1];
+			if (max !== undefined && !min.lessThan(max)) {
+				throw new Error("Tier thresholds must be strictly ascending");
+			}
+			ranges.push(
+				max === undefined
+					? MoneyRange.atLeast(min)
+					: MoneyRange.closedOpen(min, max),
+			);
+		}
+		return ranges;
+	}
+
+	/**
+	 * Groups `values` by the first range containing each of them, keeping
+	 * their order. Ranges may overlap; values in none are returned as
+	 * `unmatched`.
+	 */
+	static bucket(
+		values: readonly Money[],
+		ranges: readonly MoneyRange[],
+	): MoneyBucketing {
+		const buckets = ranges.map((range): MoneyBucket => ({ range, values: [] }));
+		const unmatched: Money[] = [];
+		for (const value of values) {
+			const bucket = buckets.find((candidate) =>
+				candidate.range.contains(value),
+			);
+			if (bucket === undefined) {
+				unmatched.push(value);
+			} else {
+				bucket.values.push(value);
+			}
+		}
+		return { buckets, unmatched };
+	}
+
+	get min(): Money | undefined {
+		return this.#lower?.value;
+	}
+
+	get max(): Money | undefined {
+		return this.#upper?.value;
+	}
+
+	get minInclusive(): boolean {
+		return this.#lower?.inclusive ?? false;
+	}
+
+	get maxInclusive(): boolean {
+		return this.#upper?.inclusive ?? false;
+	}
+
+	contains(money: Money): boolean {
+		if (this.#lower !== undefined) {
+			const order = money.compare(this.#lower.value);
+			if (order < 0 || (order === 0 && !this.#lower.inclusive)) return false;
+		}
+		if (this.#upper !== undefined) {
+			const order = money.compare(this.#upper.value);
+			if (order > 0 || (order === 0 && !this.#upper.inclusive)) return false;
+		}
+		return true;
+	}
+
+	overlaps(other: MoneyRange): boolean {
+		return this.intersect(other) !== undefined;
+	}
+
+	/** The amounts in both ranges, or `undefined` if they do not overlap. */
+	intersect(other: MoneyRange): MoneyRange | undefined {
+		const lower = tighter(this.#lower, other.#lower, 1);
+		const upper = tighter(this.#upper, other.#upper, -1);
+		if (isEmpty(lower, upper)) return undefined;
+		return new MoneyRange(lower, upper);
+	}
+
+	/** Limits `money` to the range. Throws for exclusive bounds it falls outside. */
+	clamp(money: Money): Money {
+		if (this.contains(money)) return money;
+		const bound =
+			this.#lower !== undefined && money.lessThan(this.#lower.value)
+				? this.#lower
+				: this.#upper;
+		if (bound === undefined || !bound.inclusive) {
+			throw new Error("Cannot clamp to an exclusive bound");
+		}
+		return bound.value;
+	}
+
+	equals(other: MoneyRange): boolean {
+		const same = (a?: MoneyBound, b?: MoneyBound) =>
+			a === undefined || b === undefined
+				? a === b
+				: a.inclusive === b.inclusive && a.value.equals(b.value);
+		return same(this.#lower, other.#lower) && same(this.#upper, other.#upper);
+	}
+
+	/** Interval notation, e.g. `[10.00, 50.00) USD` or `(-∞, 5.00] USD`. */
+	toString(): string {
+		const lower = this.#lower;
+		const upper = this.#upper;
+		const start =
+			lower === undefined
+				? "(-∞"
+				: `${lower.inclusive ? "[" : "("}${lower.value.toDecimalString()}`;
+		const end =
+			upper === undefined
+				? "∞)"
+				: `${upper.value.toDecimalString()}${upper.inclusive ? "]" : ")"}`;
+		const currency = (lower ?? upper)?.value.currency.code;
+		return currency === undefined
+			? `${start}, ${end}`
+			: `${start}, ${end} ${currency}`;
+	}
+}
@@ -1,41 +1,80 @@
-import type { CurrencyDefinition } from "./currency";
-
-export type RoundingMode = "floor" | "ceil" | "round" | "trunc";
+import {
+	type CurrencyDefinition,
+	type CurrencySource,
+	findCurrency,
+} from "./currency";
+import { daysBetween } from "./day-count";
+import {
+	DECIMAL_STRING_PATTERN,
+	type DecimalInput,
+	divideAndRound,
+	MAX_DECIMAL_EXPONENT,
+	numberToDecimalString,
+	type RoundingMode,
+} from "./decimal";
+import { MoneyJSONError } from "./errors";
+import type { ExchangeRateSource, ResolvedRate } from "./exchange-rates";
+import { type FormatOptions, formatDecimalString } from "./format";
+import type { HistoricalRateSource } from "./historical-rates";
+import { parseLocalizedDecimal } from "./parse";
+import { Rate, type RateInput } from "./rate";
 
 export interface FromNumberOptions {
 	rounding?: RoundingMode;
 	strict?: boolean;
+	unbounded?: boolean;
 }
 
-// Internal precision for scaled integer arithmetic
-// 20 decimal places to handle rates like 0.00001080599586018141
-const INTERNAL_PRECISION = 20;
-const INTERNAL_SCALE = 10n ** BigInt(INTERNAL_PRECISION);
-
 /**
- * Converts a number to a decimal string representation.
- * Uses toString() which often gives cleaner results (e.g., 1.005 stays "1.005"),
- * but falls back to toPrecision for edge cases with very small/large numbers.
+ * Which entries receive leftover minor units when remainders are equal:
+ * the earliest, the latest, or the one with the largest ratio.
  */
-function numberToDecimalString(n: number): string {
-	// Handle special cases
-	if (!Number.isFinite(n)) {
-		throw new Error(`Cannot convert ${n} to decimal string`);
-	}
-	if (n === 0) return "0";
+export type AllocationTieBreak = "first" | "last" | "largestRatio";
 
-	// toString() often gives the cleanest representation
-	const str = n.toString();
+export interface AllocateByRatiosOptions {
+	tieBreak?: AllocationTieBreak;
+}
 
-	// If it's in scientific notation, use toPrecision for more digits
-	if (str.includes("e") || str.includes("E")) {
-		return n.toPrecision(17);
-	}
+export interface MoneyJSON {
+	amount: number;
+	currency: string;
+}
 
-	return str;
+/** JSON shape with the amount as an integer string, safe for any magnitude. */
+export interface MoneyBigIntJSON {
+	amount: string;
+	currency: string;
 }
 
-function parseDecimalStringToScaled(str: string): bigint {
+/** Unit in which proration measures elapsed time. */
+export type ProrationGranularity = "day" | "second";
+
+export interface ProrateOptions {
+	/** Start of the charged range */
+	start: Date;
+	/** End of the charged range, exclusive */
+	end: Date;
+	/** Billing period; defaults to the UTC calendar month containing `start` */
+	periodStart?: Date;
+	/** End of the billing period, exclusive */
+	periodEnd?: Date;
+	granularity?: ProrationGranularity;
+	rounding?: RoundingMode;
+}
+
+/** Result of `convertTo`: the converted amount and the rate applied. */
+export interface Conversion {
+	money: Money;
+	rate: ResolvedRate;
+}
+
+// Internal precision for scaled integer arithmetic
+// 20 decimal places to handle rates like 0.00001080599586018141
+const INTERNAL_PRECISION = 20;
+const INTERNAL_SCALE = 10n ** BigInt(INTERNAL_PRECISION);
+const SAFE_INTEGER_DIGITS = String(Number.MAX_SAFE_INTEGER).length;
+
+function parseDecimalStringToScaled(str: string, unbounded = false): bigint {
 	// Handle sign
 	const negative = str.startsWith("-");
 	if (negative) str = str.slice(1);
@@ -46,6 +85,21 @@ function parseDecimalStringToScaled(str: string): bigint {
 		const mantissa = str.slice(0, eIndex);
 		const exponent = parseInt(str.slice(eIndex + 1), 10);
 		const scaledMantissa = parseDecimalStringToScaled(mantissa);
+		// Below this every digit falls past the internal precision
+		if (
+			scaledMantissa === 0n ||
+			exponent < -(INTERNAL_PRECISION + mantissa.length)
+		) {
+			return 0n;
+		}
+		if (!unbounded && exponent > SAFE_INTEGER_DIGITS + mantissa.length) {
+			throw new Error("Result too large: exceeds safe integer range");
+		}
+		if (exponent > MAX_DECIMAL_EXPONENT) {
+			throw new Error(
+				`Exponent too large: ${exponent} exceeds ${MAX_DECIMAL_EXPONENT}`,
+			);
+		}
 		const sign = negative ? -1n : 1n;
 		if (exponent >= 0) {
 			return sign * scaledMantissa * 10n ** BigInt(exponent);
@@ -78,43 +132,75 @@ function parseDecimalStringToScaled(str: string): bigint {
 	return negative ? -result : result;
 }
 
+/**
+ * Counts the decimal places a decimal string actually needs, ignoring
+ * trailing zeros and taking any exponent into account ("1.50" -> 1, "1e-3" -> 3).
+ */
+function significantDecimalPlaces(str: string): number {
+	const eIndex = str.toLowerCase().indexOf("e");
+	const mantissa = eIndex === -1 ? str : str.slice(0, eIndex);
+	const exponent = eIndex === -1 ? 0 : parseInt(str.slice(eIndex + 1), 10);
+
+	const dotIndex = mantissa.indexOf(".");
+	const decPart = dotIndex === -1 ? "" : mantissa.slice(dotIndex + 1);
+	const digits = mantissa.replace(/[-.]/g, "");
+	const trimmed = digits.replace(/0+$/, "");
+	if (!/[1-9]/.test(trimmed)) return 0;
+
+	const trailingZeros = digits.length - trimmed.length;
+	return Math.max(0, decPart.length - exponent - trailingZeros);
+}
+
 function roundScaledToMinor(
 	scaled: bigint,
 	targetDecimalPlaces: number,
 	mode: RoundingMode,
 ): bigint {
 	const targetScale = 10n ** BigInt(targetDecimalPlaces);
-	const divisor = INTERNAL_SCALE / targetScale;
-
-	const quotient = scaled / divisor;
-	const remainder = scaled % divisor;
-
-	if (remainder === 0n) return quotient;
-
-	const isNegative = scaled < 0n;
-	const absRemainder = isNegative ? -remainder : remainder;
-	const halfDivisor = divisor / 2n;
-
-	switch (mode) {
-		case "floor":
-			return isNegative ? quotient - 1n : quotient;
-		case "ceil":
-			return isNegative ? quotient : quotient + 1n;
-		case "trunc":
-			return quotient;
-		default:
-			// Round half away from zero
-			if (
-				absRemainder > halfDivisor ||
-				(absRemainder === halfDivisor && !isNegative)
-			) {
-				return isNegative ? quotient - 1n : quotient + 1n;
-			}
-			return quotient;
+	return divideAndRound(scaled, INTERNAL_SCALE / targetScale, mode);
+}
+
+function parseDecimalInput(value: DecimalInput, label: string): bigint {
+	if (typeof value === "bigint") {
+		return value * INTERNAL_SCALE;
+	}
+	if (typeof value === "number") {
+		if (!Number.isFinite(value)) {
+			throw new Error(`${label} must be a finite number`);
+		}
+		return parseDecimalStringToScaled(numberToDecimalString(value), true);
+	}
+	if (!DECIMAL_STRING_PATTERN.test(value)) {
+		throw new Error(`${label} is not a valid decimal string: "${value}"`);
+	}
+	return parseDecimalStringToScaled(value, true);
+}
+
+function scaledToMinor(
+	scaled: bigint,
+	value: number | string,
+	currency: CurrencyDefinition,
+	options: FromNumberOptions,
+): bigint {
+	const { rounding = "round", strict, unbounded } = options;
+
+	// For strict mode, check if value can be exactly represented
+	if (strict) {
+		const targetScale = 10n ** BigInt(currency.decimalPlaces);
+		const divisor = INTERNAL_SCALE / targetScale;
+		if (scaled % divisor !== 0n) {
+			throw new Error(
+				`Precision loss: ${value} cannot be exactly represented with ${currency.decimalPlaces} decimal places`,
+			);
+		}
 	}
+
+	const minor = roundScaledToMinor(scaled, currency.decimalPlaces, rounding);
+	assertSafeResult(minor, unbounded);
+	return minor;
 }
 
-function assertCurrenciesMatch(
+export function assertCurrenciesMatch(
 	a: CurrencyDefinition,
 	b: CurrencyDefinition,
 	operation: string,
@@ -126,22 +212,64 @@ function assertCurrenciesMatch(
 	}
 }
 
-function assertSafeResult(value: bigint): void {
-	if (
-		value > BigInt(Number.MAX_SAFE_INTEGER) ||
-		value < BigInt(-Number.MAX_SAFE_INTEGER)
-	) {
+function isSafeMinor(value: bigint): boolean {
+	return (
+		value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+		value >= BigInt(-Number.MAX_SAFE_INTEGER)
+	);
+}
+
+function assertSafeResult(value: bigint, unbounded = false): void {
+	if (!unbounded && !isSafeMinor(value)) {
 		throw new Error("Result too large: exceeds safe integer range");
 	}
 }
 
+function elapsed(
+	start: Date,
+	end: Date,
+	granularity: ProrationGranularity,
+): bigint {
+	if (granularity === "day") {
+		return BigInt(daysBetween(start, end));
+	}
+	if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+		throw new Error("Invalid date");
+	}
+	return BigInt(
+		Math.floor(end.getTime() / 1000) - Math.floor(start.getTime() / 1000),
+	);
+}
+
+function prorationPeriod(options: ProrateOptions): [Date, Date] {
+	const { start, periodStart, periodEnd } = options;
+	if (periodStart !== undefined && periodEnd !== undefined) {
+		return [periodStart, periodEnd];
+	}
+	if (periodStart !== undefined || periodEnd !== undefined) {
+		throw new Error("periodStart and periodEnd must be given together");
+	}
+	const year = start.getUTCFullYear();
+	const month = start.getUTCMonth();
+	return [
+		new Date(Date.UTC(year, month, 1)),
+		new Date(Date.UTC(year, month + 1, 1)),
+	];
+}
+
 export class Money {
 	readonly #minor: bigint;
 	readonly #currency: CurrencyDefinition;
+	readonly #unbounded: boolean;
 
-	private constructor(minor: bigint, currency: CurrencyDefinition) {
+	private constructor(
+		minor: bigint,
+		currency: CurrencyDefinition,
+		unbounded = false,
+	) {
 		this.#minor = minor;
 		this.#currency = currency;
+		this.#unbounded = unbounded;
 	}
 
 	get currency(): CurrencyDefinition {
@@ -153,12 +281,10 @@ export class Money {
 		value: number,
 		options: FromNumberOptions = {},
 	): Money {
-		const { rounding = "round", strict } = options;
-
 		// Check if the value, when converted to minor units, would exceed safe integer range
 		const multiplier = 10 ** currency.decimalPlaces;
 		const estimatedMinor = Math.abs(value) * multiplier;
-		if (estimatedMinor > Number.MAX_SAFE_INTEGER) {
+		if (!options.unbounded && estimatedMinor > Number.MAX_SAFE_INTEGER) {
 			throw new Error(
 				`Value too large: ${value} exceeds safe integer range when converted to minor units`,
 			);
@@ -166,55 +292,138 @@ export class Money {
 
 		// Convert to string to preserve decimal representation
 		const valueStr = numberToDecimalString(value);
-		const scaledValue = parseDecimalStringToScaled(valueStr);
-
-		// For strict mode, check if value can be exactly represented
-		if (strict) {
-			const targetScale = 10n ** BigInt(currency.decimalPlaces);
-			const divisor = INTERNAL_SCALE / targetScale;
-			if (scaledValue % divisor !== 0n) {
-				throw new Error(
-					`Precision loss: ${value} cannot be exactly represented with ${currency.decimalPlaces} decimal places`,
-				);
-			}
+		const scaledValue = parseDecimalStringToScaled(valueStr, options.unbounded);
+
+		const minor = scaledToMinor(scaledValue, value, currency, options);
+		return new Money(minor, currency, options.unbounded);
+	}
+
+	/**
+	 * Creates Money from a decimal string such as "12.345", "-0.10" or "1e-3"
+	 * without going through a JS number, so no precision is lost on the way in.
+	 */
+	static fromString(
+		currency: CurrencyDefinition,
+		value: string,
+		options: FromNumberOptions = {},
+	): Money {
+		if (!DECIMAL_STRING_PATTERN.test(value)) {
+			throw new Error(`Invalid decimal string: "${value}"`);
 		}
 
-		const minor = roundScaledToMinor(
-			scaledValue,
-			currency.decimalPlaces,
-			rounding,
-		);
-		assertSafeResult(minor);
-		return new Money(minor, currency);
+		// Digits beyond the internal precision are dropped while parsing, so
+		// strict mode has to inspect the text itself
+		if (
+			options.strict &&
+			significantDecimalPlaces(value) > currency.decimalPlaces
+		) {
+			throw new Error(
+				`Precision loss: ${value} cannot be exactly represented with ${currency.decimalPlaces} decimal places`,
+			);
+		}
+
+		const scaledValue = parseDecimalStringToScaled(value, options.unbounded);
+
+		const minor = scaledToMinor(scaledValue, value, currency, options);
+		return new Money(minor, currency, options.unbounded);
+	}
+
+	/**
+	 * Parses an amount typed by a user in the conventions of `locales`, e.g.
+	 * "1.234,56", "1 234,56 kr", "$1,234.56" or "(12.00)". Grouping and
+	 * decimal separators, currency symbols/codes, minus variants and
+	 * accounting parentheses are understood; anything else throws a
+	 * `MoneyParseError` carrying the offending position.
+	 */
+	static parseLocalized(
+		input: string,
+		currency: CurrencyDefinition,
+		locales?: string | string[],
+		options: FromNumberOptions = {},
+	): Money {
+		const value = parseLocalizedDecimal(input, currency, locales);
+		return Money.fromString(currency, value, options);
 	}
 
+	/** Creates Money from a safe integer count of minor units. */
 	static fromMinor(currency: CurrencyDefinition, minor: number): Money {
+		if (Number.isInteger(minor) && !Number.isSafeInteger(minor)) {
+			throw new Error(
+				`Minor units exceed safe integer range: ${minor} (use fromMinorBigInt)`,
+			);
+		}
 		return new Money(BigInt(minor), currency);
 	}
 
+	/**
+	 * Creates Money from a BigInt count of minor units. Values outside the
+	 * safe integer range are rejected unless `unbounded` is set, in which case
+	 * the instance and everything derived from it skip the safe-integer guard.
+	 */
+	static fromMinorBigInt(
+		currency: CurrencyDefinition,
+		minor: bigint,
+		options: { unbounded?: boolean } = {},
+	): Money {
+		if (typeof minor !== "bigint") {
+			throw new Error("Minor units must be a bigint");
+		}
+		assertSafeResult(minor, options.unbounded);
+		return new Money(minor, currency, options.unbounded);
+	}
+
 	toNumber(): number {
 		const divisor = 10 ** this.#currency.decimalPlaces;
 		return Number(this.#minor) / divisor;
 	}
 
 	toMinor(): number {
+		if (!isSafeMinor(this.#minor)) {
+			throw new Error(
+				"Cannot convert to number: exceeds safe integer range, use toMinorBigInt()",
+			);
+		}
 		return Number(this.#minor);
 	}
 
+	toMinorBigInt(): bigint {
+		return this.#minor;
+	}
+
+	/**
+	 * Renders the exact amount with `currency.decimalPlaces` fractional digits,
+	 * e.g. "12.30", "-0.05", "1000" or "0.00000001". Never goes through a float.
+	 */
+	toDecimalString(): string {
+		const decimalPlaces = this.#currency.decimalPlaces;
+		const negative = this.#minor < 0n;
+		const digits = (negative ? -this.#minor : this.#minor)
+			.toString()
+			.padStart(decimalPlaces + 1, "0");
+
+		const intPart = digits.slice(0, digits.length - decimalPlaces);
+		const decPart = digits.slice(digits.length - decimalPlaces);
+		const unsigned = decimalPlaces === 0 ? intPart : `${intPart}.${decPart}`;
+
+		return negative ? `-${unsigned}` : unsigned;
+	}
+
 	// Static arithmetic methods
 
 	static add(a: Money, b: Money): Money {
 		assertCurrenciesMatch(a.#currency, b.#currency, "add");
 		const result = a.#minor + b.#minor;
-		assertSafeResult(result);
-		return new Money(result, a.#currency);
+		const unbounded = a.#unbounded || b.#unbounded;
+		assertSafeResult(result, unbounded);
+		return new Money(result, a.#currency, unbounded);
 	}
 
 	static subtract(a: Money, b: Money): Money {
 		assertCurrenciesMatch(a.#currency, b.#currency, "subtract");
 		const result = a.#minor - b.#minor;
-		assertSafeResult(result);
-		return new Money(result, a.#currency);
+		const unbounded = a.#unbounded || b.#unbounded;
+		assertSafeResult(result, unbounded);
+		return new Money(result, a.#currency, unbounded);
 	}
 
 	static sum(items: Money[]): Money {
@@ -226,12 +435,14 @@ export class Money {
 		}
 		const currency = first.#currency;
 		let total = 0n;
+		let unbounded = false;
 		for (const item of items) {
 			assertCurrenciesMatch(item.#currency, currency, "sum");
 			total += item.#minor;
+			unbounded ||= item.#unbounded;
 		}
-		assertSafeResult(total);
-		return new Money(total, currency);
+		assertSafeResult(total, unbounded);
+		return new Money(total, currency, unbounded);
 	}
 
 	// Static comparison methods
@@ -268,6 +479,39 @@ export class Money {
 		return a.#minor >= b.#minor;
 	}
 
+	/** The smallest amount; the first one wins ties. */
+	static min(items: Money[]): Money {
+		return Money.#extreme(items, "min", -1);
+	}
+
+	/** The largest amount; the first one wins ties. */
+	static max(items: Money[]): Money {
+		return Money.#extreme(items, "max", 1);
+	}
+
+	/** Limits `money` to `min..max`, both inclusive. */
+	static clamp(money: Money, min: Money, max: Money): Money {
+		if (Money.greaterThan(min, max)) {
+			throw new Error("Clamp minimum must not exceed the maximum");
+		}
+		if (Money.lessThan(money, min)) return min;
+		if (Money.greaterThan(money, max)) return max;
+		return money;
+	}
+
+	static #extreme(items: Money[], name: string, direction: number): Money {
+		let result = items[0];
+		if (result === undefined) {
+			throw new Error(
+				`Cannot find ${name} of empty array: at least one Money value required`,
+			);
+		}
+		for (const item of items) {
+			if (Money.compare(item, result) === direction) result = item;
+		}
+		return result;
+	}
+
 	// Instance method wrappers
 
 	add(other: Money): Money {
@@ -302,6 +546,10 @@ export class Money {
 		return Money.greaterThanOrEqual(this, other);
 	}
 
+	clamp(min: Money, max: Money): Money {
+		return Money.clamp(this, min, max);
+	}
+
 	// Predicates
 
 	isZero(): boolean {
@@ -316,6 +564,70 @@ export class Money {
 		return this.#minor < 0n;
 	}
 
+	/** Whether this value opted out of the safe-integer guard. */
+	isUnbounded(): boolean {
+		return this.#unbounded;
+	}
+
+	// Scalar operations
+
+	/**
+	 * Multiplies by a number, decimal string or bigint, rounding the exact
+	 * product once to the currency's minor units.
+	 */
+	static multiply(
+		money: Money,
+		factor: DecimalInput,
+		options: { rounding?: RoundingMode } = {},
+	): Money {
+		const { rounding = "round" } = options;
+
+		const scaledFactor = parseDecimalInput(factor, "Factor");
+
+		const resultMinor = divideAndRound(
+			money.#minor * scaledFactor,
+			INTERNAL_SCALE,
+			rounding,
+		);
+		assertSafeResult(resultMinor, money.#unbounded);
+		return new Money(resultMinor, money.#currency, money.#unbounded);
+	}
+
+	/**
+	 * Divides by a number, decimal string or bigint, rounding the exact
+	 * quotient once to the currency's minor units. Throws on division by zero.
+	 */
+	static divide(
+		money: Money,
+		divisor: DecimalInput,
+		options: { rounding?: RoundingMode } = {},
+	): Money {
+		const { rounding = "round" } = options;
+
+		const scaledDivisor = parseDecimalInput(divisor, "Divisor");
+		if (scaledDivisor === 0n) {
+			throw new Error("Cannot divide by zero");
+		}
+
+		// Keep the divisor positive so rounding sees the sign of the result
+		const sign = scaledDivisor < 0n ? -1n : 1n;
+		const resultMinor = divideAndRound(
+			money.#minor * INTERNAL_SCALE * sign,
+			scaledDivisor * sign,
+			rounding,
+		);
+		assertSafeResult(resultMinor, money.#unbounded);
+		return new Money(resultMinor, money.#currency, money.#unbounded);
+	}
+
+	multiply(factor: DecimalInput, options?: { rounding?: RoundingMode }): Money {
+		return Money.multiply(this, factor, options);
+	}
+
+	divide(divisor: DecimalInput, options?: { rounding?: RoundingMode }): Money {
+		return Money.divide(this, divisor, options);
+	}
+
 	// Allocation
 
 	static allocate(money: Money, parts: number): Money[] {
@@ -335,7 +647,7 @@ export class Money {
 		const result: Money[] = [];
 		for (let i = 0n; i < partsBigInt; i++) {
 			const extra = i < absRemainder ? sign : 0n;
-			result.push(new Money(base + extra, money.#currency));
+			result.push(new Money(base + extra, money.#currency, money.#unbounded));
 		}
 
 		return result;
@@ -345,234 +657,532 @@ export class Money {
 		return Money.allocate(this, parts);
 	}
 
+	/**
+	 * Splits money proportionally to `ratios` (numbers, decimal strings,
+	 * bigints or Money weights) using the largest-remainder method, so the
+	 * parts always sum exactly to the original amount. Zero ratios receive
+	 * zero; leftover minor units go to the largest remainders, with ties
+	 * resolved by `tieBreak` (default "first").
+	 */
+	static allocateByRatios(
+		money: Money,
+		ratios: (DecimalInput | Money)[],
+		options: AllocateByRatiosOptions = {},
+	): Money[] {
+		const { tieBreak = "first" } = options;
+
+		if (ratios.length === 0) {
+			throw new Error("Allocation requires at least one ratio");
+		}
+
+		let weightCurrency: CurrencyDefinition | undefined;
+		const weights = ratios.map((ratio) => {
+			if (ratio instanceof Money) {
+				if (weightCurrency !== undefined) {
+					assertCurrenciesMatch(weightCurrency, ratio.#currency, "allocate by");
+				}
+				weightCurrency = ratio.#currency;
+				const scale = 10n ** BigInt(ratio.#currency.decimalPlaces);
+				return ratio.#minor * (INTERNAL_SCALE / scale);
+			}
+			return parseDecimalInput(ratio, "Allocation ratio");
+		});
+
+		if (weights.some((weight) => weight < 0n)) {
+			throw new Error("Allocation ratios must be non-negative");
+		}
+		const total = weights.reduce((acc, weight) => acc + weight, 0n);
+		if (total === 0n) {
+			throw new Error("Allocation requires at least one positive ratio");
+		}
+
+		const sign = money.#minor < 0n ? -1n : 1n;
+		const amount = money.#minor * sign;
+
+		const shares = weights.map((weight) => (amount * weight) / total);
+		const remainders = weights.map((weight) => (amount * weight) % total);
+		let leftover = amount - shares.reduce((acc, share) => acc + share, 0n);
+
+		const order = weights.map((_, index) => index);
+		order.sort((a, b) => {
+			const ra = remainders[a] ?? 0n;
+			const rb = remainders[b] ?? 0n;
+			if (ra !== rb) return ra > rb ? -1 : 1;
+			if (tieBreak === "largestRatio") {
+				const wa = weights[a] ?? 0n;
+				const wb = weights[b] ?? 0n;
+				if (wa !== wb) return wa > wb ? -1 : 1;
+			}
+			return tieBreak === "last" ? b - a : a - b;
+		});
+
+		for (const index of order) {
+			if (leftover === 0n) break;
+			shares[index] = (shares[index] ?? 0n) + 1n;
+			leftover--;
+		}
+
+		return shares.map(
+			(share) => new Money(share * sign, money.#currency, money.#unbounded),
+		);
+	}
+
+	allocateByRatios(
+		ratios: (DecimalInput | Money)[],
+		options?: AllocateByRatiosOptions,
+	): Money[] {
+		return Money.allocateByRatios(this, ratios, options);
+	}
+
 	// Conversion
 
+	/**
+	 * Converts at `rate` (units of `targetCurrency` per unit of the source).
+	 * Decimal strings, fractions and `Rate` values are applied exactly.
+	 */
 	static convert(
 		money: Money,
 		targetCurrency: CurrencyDefinition,
-		rate: number,
+		rate: RateInput,
 		options: { rounding?: RoundingMode } = {},
 	): Money {
-		if (!Number.isFinite(rate) || rate <= 0) {
+		const exactRate = Rate.from(rate);
+		if (!exactRate.isPositive()) {
 			throw new Error("Exchange rate must be a finite positive number");
 		}
 
 		const { rounding = "round" } = options;
 
-		// Parse rate to scaled bigint
-		const scaledRate = parseDecimalStringToScaled(numberToDecimalString(rate));
-
-		// Scale source to internal precision
-		const sourceScale = 10n ** BigInt(money.#currency.decimalPlaces);
-		const scaledSource = money.#minor * (INTERNAL_SCALE / sourceScale);
-
-		// Multiply and scale back down
-		const rawProduct = (scaledSource * scaledRate) / INTERNAL_SCALE;
-
-		const resultMinor = roundScaledToMinor(
-			rawProduct,
-			targetCurrency.decimalPlaces,
+		// minor * rate * 10^targetDp / 10^sourceDp, rounded once
+		const resultMinor = divideAndRound(
+			money.#minor *
+				exactRate.numerator *
+				10n ** BigInt(targetCurrency.decimalPlaces),
+			exactRate.denominator * 10n ** BigInt(money.#currency.decimalPlaces),
 			rounding,
 		);
-		assertSafeResult(resultMinor);
-		return new Money(resultMinor, targetCurrency);
+		assertSafeResult(resultMinor, money.#unbounded);
+		return new Money(resultMinor, targetCurrency, money.#unbounded);
 	}
 
 	convert(
 		targetCurrency: CurrencyDefinition,
-		rate: number,
+		rate: RateInput,
 		options?: { rounding?: RoundingMode },
 	): Money {
 		return Money.convert(this, targetCurrency, rate, options);
 	}
 
+	/**
+	 * Converts using a rate looked up in `rates`. The resolved rate is
+	 * returned alongside the result so callers can record what was applied.
+	 */
+	static convertTo(
+		money: Money,
+		targetCurrency: CurrencyDefinition,
+		rates: ExchangeRateSource,
+		options: { rounding?: RoundingMode } = {},
+	): Conversion {
+		const rate = rates.getRate(money.#currency, targetCurrency);
+		return {
+			money: Money.convert(money, targetCurrency, rate.rate, options),
+			rate,
+		};
+	}
+
+	convertTo(
+		targetCurrency: CurrencyDefinition,
+		rates: ExchangeRateSource,
+		options?: { rounding?: RoundingMode },
+	): Conversion {
+		return Money.convertTo(this, targetCurrency, rates, options);
+	}
+
+	/**
+	 * Converts using the rate that was effective at `date`, e.g. the
+	 * transaction date when restating historical revenue.
+	 */
+	static convertAt(
+		money: Money,
+		targetCurrency: CurrencyDefinition,
+		rates: HistoricalRateSource,
+		date: Date | string,
+		options: { rounding?: RoundingMode } = {},
+	): Conversion {
+		const rate = rates.getRate(money.#currency, targetCurrency, date);
+		return {
+			money: Money.convert(money, targetCurrency, rate.rate, options),
+			rate,
+		};
+	}
+
+	convertAt(
+		targetCurrency: CurrencyDefinition,
+		rates: HistoricalRateSource,
+		date: Date | string,
+		options?: { rounding?: RoundingMode },
+	): Conversion {
+		return Money.convertAt(this, targetCurrency, rates, date, options);
+	}
+
 	// Rounding
 
 	static roundTo(
 		money: Money,
-		increment: number,
+		increment: RateInput,
 		mode: RoundingMode = "round",
 	): Money {
-		if (!Number.isFinite(increment) || increment <= 0) {
+		const exactIncrement = Rate.from(increment);
+		if (!exactIncrement.isPositive()) {
 			throw new Error("Rounding increment must be a finite positive number");
 		}
 
-		// Parse increment to scaled bigint
-		const scaledIncrement = parseDecimalStringToScaled(
-			numberToDecimalString(increment),
-		);
-
 		// Convert to minor units and verify exact representation
-		const targetScale = 10n ** BigInt(money.#currency.decimalPlaces);
-		const divisor = INTERNAL_SCALE / targetScale;
-
-		if (scaledIncrement % divisor !== 0n) {
+		const scaledIncrement =
+			exactIncrement.numerator * 10n ** BigInt(money.#currency.decimalPlaces);
+		if (scaledIncrement % exactIncrement.denominator !== 0n) {
 			throw new Error(
-				`Rounding increment ${increment} cannot be exactly represented with ${money.#currency.decimalPlaces} decimal places`,
+				`Rounding increment ${exactIncrement} cannot be exactly represented with ${money.#currency.decimalPlaces} decimal places`,
 			);
 		}
 
-		const incrementMinor = scaledIncrement / divisor;
-		if (incrementMinor === 0n) {
-			throw new Error(
-				"Rounding increment is too small for this currency's precision",
-			);
-		}
-
-		const minor = money.#minor;
-		const remainder = minor % incrementMinor;
-
-		if (remainder === 0n) {
-			return new Money(minor, money.#currency);
-		}
-
-		const base = minor - remainder;
-		let rounded: bigint;
-
-		switch (mode) {
-			case "trunc":
-				rounded = base;
-				break;
-			case "floor":
-				rounded = minor < 0n ? base - incrementMinor : base;
-				break;
-			case "ceil":
-				rounded = minor < 0n ? base : base + incrementMinor;
-				break;
-			default: {
-				const absRemainder = remainder < 0n ? -remainder : remainder;
-				const cmp = absRemainder * 2n - incrementMinor;
-				if (cmp < 0n) {
-					rounded = base;
-				} else if (cmp > 0n) {
-					rounded = minor < 0n ? base - incrementMinor : base + incrementMinor;
-				} else {
-					rounded = minor < 0n ? base : base + incrementMinor;
-				}
-				break;
-			}
-		}
+		const incrementMinor = scaledIncrement / exactIncrement.denominator;
+		const rounded =
+			divideAndRound(money.#minor, incrementMinor, mode) * incrementMinor;
 
-		assertSafeResult(rounded);
-		return new Money(rounded, money.#currency);
+		assertSafeResult(rounded, money.#unbounded);
+		return new Money(rounded, money.#currency, money.#unbounded);
 	}
 
-	round(increment: number, mode?: RoundingMode): Money {
+	round(increment: RateInput, mode?: RoundingMode): Money {
 		return Money.roundTo(this, increment, mode);
 	}
 
+	/**
+	 * Rounds to the currency's `cashIncrement` (e.g. CHF 0.05, SEK 1.00) for
+	 * cash payments. Currencies without a cash increment are returned as is.
+	 */
+	static roundForCash(money: Money, mode: RoundingMode = "round"): Money {
+		const { cashIncrement } = money.#currency;
+		if (cashIncrement === undefined) {
+			return money;
+		}
+		return Money.roundTo(money, cashIncrement, mode);
+	}
+
+	roundForCash(mode?: RoundingMode): Money {
+		return Money.roundForCash(this, mode);
+	}
+
 	// Percent operations
 
 	static percentOf(
 		money: Money,
-		percent: number,
+		percent: RateInput,
 		options: { rounding?: RoundingMode } = {},
 	): Money {
-		const { rounding = "round" } = options;
-
-		const scaledPercent = parseDecimalStringToScaled(
-			numberToDecimalString(percent),
-		);
-		const scaledHundred = 100n * INTERNAL_SCALE;
-
-		// Scale money to internal precision
-		const currencyScale = 10n ** BigInt(money.#currency.decimalPlaces);
-		const scaledMoney = money.#minor * (INTERNAL_SCALE / currencyScale);
-
-		// Calculate: scaledMoney * scaledPercent / scaledHundred
-		const rawResult = (scaledMoney * scaledPercent) / scaledHundred;
-
-		const resultMinor = roundScaledToMinor(
-			rawResult,
-			money.#currency.decimalPlaces,
-			rounding,
-		);
-		assertSafeResult(resultMinor);
-		return new Money(resultMinor, money.#currency);
+		return Money.#scaleByPercent(money, percent, 0n, 1n, options);
 	}
 
 	static incrementByPercent(
 		money: Money,
-		percent: number,
+		percent: RateInput,
 		options: { rounding?: RoundingMode } = {},
 	): Money {
-		const { rounding = "round" } = options;
-
-		const scaledPercent = parseDecimalStringToScaled(
-			numberToDecimalString(percent),
-		);
-		const scaledHundred = 100n * INTERNAL_SCALE;
-
-		// Scale money to internal precision
-		const currencyScale = 10n ** BigInt(money.#currency.decimalPlaces);
-		const scaledMoney = money.#minor * (INTERNAL_SCALE / currencyScale);
-
-		// Calculate: scaledMoney * (100 + percent) / 100
-		const rawResult =
-			(scaledMoney * (scaledHundred + scaledPercent)) / scaledHundred;
-
-		const resultMinor = roundScaledToMinor(
-			rawResult,
-			money.#currency.decimalPlaces,
-			rounding,
-		);
-		assertSafeResult(resultMinor);
-		return new Money(resultMinor, money.#currency);
+		return Money.#scaleByPercent(money, percent, 1n, 1n, options);
 	}
 
 	static decrementByPercent(
 		money: Money,
-		percent: number,
+		percent: RateInput,
+		options: { rounding?: RoundingMode } = {},
+	): Money {
+		return Money.#scaleByPercent(money, percent, 1n, -1n, options);
+	}
+
+	/**
+	 * Inverse of `incrementByPercent`: recovers the net amount from a gross
+	 * amount as `gross * 100 / (100 + percent)`, rounded once.
+	 *
+	 * For `percent >= 0` and any nearest-value mode (`round`, `half*`),
+	 * `removePercent(incrementByPercent(x, p), p)` returns `x` exactly: the
+	 * increment's rounding residue is at most half a minor unit, and dividing
+	 * by `1 + p/100` only shrinks it. Directed modes (`floor`, `ceil`,
+	 * `trunc`) and negative percentages do not carry that guarantee.
+	 */
+	static removePercent(
+		gross: Money,
+		percent: RateInput,
 		options: { rounding?: RoundingMode } = {},
 	): Money {
 		const { rounding = "round" } = options;
+		const exactPercent = Rate.from(percent);
+		const divisor = exactPercent.add(100n);
+		if (!divisor.isPositive()) {
+			throw new Error("Cannot remove a percentage of -100% or less");
+		}
 
-		const scaledPercent = parseDecimalStringToScaled(
-			numberToDecimalString(percent),
+		const resultMinor = divideAndRound(
+			gross.#minor * 100n * divisor.denominator,
+			divisor.numerator,
+			rounding,
 		);
-		const scaledHundred = 100n * INTERNAL_SCALE;
+		assertSafeResult(resultMinor, gross.#unbounded);
+		return new Money(resultMinor, gross.#currency, gross.#unbounded);
+	}
 
-		// Scale money to internal precision
-		const currencyScale = 10n ** BigInt(money.#currency.decimalPlaces);
-		const scaledMoney = money.#minor * (INTERNAL_SCALE / currencyScale);
+	/**
+	 * What percentage `part` is of `whole`, as an exact `Rate`
+	 * (e.g. 25.00 of 200.00 is 12.5; 1.00 of 3.00 is 100/3).
+	 * Use `Rate#toFixed` to display it.
+	 */
+	static percentage(part: Money, whole: Money): Rate {
+		return Money.ratio(part, whole).multiply(100n);
+	}
 
-		// Calculate: scaledMoney * (100 - percent) / 100
-		const rawResult =
-			(scaledMoney * (scaledHundred - scaledPercent)) / scaledHundred;
+	/** `a / b` as an exact `Rate`. Throws when `b` is zero. */
+	static ratio(a: Money, b: Money): Rate {
+		assertCurrenciesMatch(a.#currency, b.#currency, "divide");
+		if (b.#minor === 0n) {
+			throw new Error("Cannot divide by zero");
+		}
+		return Rate.fraction(a.#minor, b.#minor);
+	}
+
+	/**
+	 * Computes `money * (whole * 100 + sign * percent) / 100` with a single
+	 * rounding step: the percentage itself, or the amount plus or minus it.
+	 */
+	static #scaleByPercent(
+		money: Money,
+		percent: RateInput,
+		whole: bigint,
+		sign: bigint,
+		options: { rounding?: RoundingMode },
+	): Money {
+		const { rounding = "round" } = options;
+		const exactPercent = Rate.from(percent);
+		const hundredths = 100n * exactPercent.denominator;
 
-		const resultMinor = roundScaledToMinor(
-			rawResult,
-			money.#currency.decimalPlaces,
+		const resultMinor = divideAndRound(
+			money.#minor * (whole * hundredths + sign * exactPercent.numerator),
+			hundredths,
 			rounding,
 		);
-		assertSafeResult(resultMinor);
-		return new Money(resultMinor, money.#currency);
+		assertSafeResult(resultMinor, money.#unbounded);
+		return new Money(resultMinor, money.#currency, money.#unbounded);
 	}
 
-	percentOf(percent: number, options?: { rounding?: RoundingMode }): Money {
+	percentOf(percent: RateInput, options?: { rounding?: RoundingMode }): Money {
 		return Money.percentOf(this, percent, options);
 	}
 
 	incrementByPercent(
-		percent: number,
+		percent: RateInput,
 		options?: { rounding?: RoundingMode },
 	): Money {
 		return Money.incrementByPercent(this, percent, options);
 	}
 
 	decrementByPercent(
-		percent: number,
+		percent: RateInput,
 		options?: { rounding?: RoundingMode },
 	): Money {
 		return Money.decrementByPercent(this, percent, options);
 	}
 
+	removePercent(
+		percent: RateInput,
+		options?: { rounding?: RoundingMode },
+	): Money {
+		return Money.removePercent(this, percent, options);
+	}
+
+	percentage(whole: Money): Rate {
+		return Money.percentage(this, whole);
+	}
+
+	ratio(other: Money): Rate {
+		return Money.ratio(this, other);
+	}
+
+	// Proration
+
+	/**
+	 * The share of `amount` for `start..end` out of a billing period, e.g.
+	 * 17 of June's 30 days. Lengths are counted in whole UTC days or seconds,
+	 * so months of any length and leap days are measured as they are, and the
+	 * exact fraction is rounded once.
+	 */
+	static prorate(amount: Money, options: ProrateOptions): Money {
+		const { start, end, granularity = "day", rounding = "round" } = options;
+		const [periodStart, periodEnd] = prorationPeriod(options);
+
+		const periodLength = elapsed(periodStart, periodEnd, granularity);
+		if (periodLength <= 0n) {
+			throw new Error("Proration period must not be empty");
+		}
+		const length = elapsed(start, end, granularity);
+		if (length < 0n) {
+			throw new Error("Proration end must not be before its start");
+		}
+		if (
+			elapsed(periodStart, start, granularity) < 0n ||
+			elapsed(end, periodEnd, granularity) < 0n
+		) {
+			throw new Error("Proration range must lie within the period");
+		}
+
+		const resultMinor = divideAndRound(
+			amount.#minor * length,
+			periodLength,
+			rounding,
+		);
+		return new Money(resultMinor, amount.#currency, amount.#unbounded);
+	}
+
+	/**
+	 * Splits a period's charge across consecutive sub-periods. `boundaries`
+	 * lists the period start, every cut-over date and the period end in
+	 * order; the pieces are proportional to the sub-period lengths and sum
+	 * exactly to `amount`.
+	 */
+	static prorateAcross(
+		amount: Money,
+		boundaries: readonly Date[],
+		options: { granularity?: ProrationGranularity } = {},
+	): Money[] {
+		const { granularity = "day" } = options;
+		if (boundaries.length < 2) {
+			throw new Error("Proration needs at least a start and an end date");
+		}
+		const lengths: bigint[] = [];
+		for (let i = 1; i < boundaries.length; i++) {
+			const from = boundaries[i - 1] as Date;
+			const to = boundaries[i] as Date;
+			const length = elapsed(from, to, granularity);
+			if (length < 0n) {
+				throw new Error("Proration boundaries must be in ascending order");
+			}
+			lengths.push(length);
+		}
+		if (lengths.every((length) => length === 0n)) {
+			throw new Error("Proration period must not be empty");
+		}
+		return Money.allocateByRatios(amount, lengths);
+	}
+
+	prorate(options: ProrateOptions): Money {
+		return Money.prorate(this, options);
+	}
+
+	prorateAcross(
+		boundaries: readonly Date[],
+		options?: { granularity?: ProrationGranularity },
+	): Money[] {
+		return Money.prorateAcross(this, boundaries, options);
+	}
+
+	// Formatting
+
+	/**
+	 * Formats the amount for display using `Intl.NumberFormat`, always with
+	 * `currency.decimalPlaces` fractional digits (except in compact notation).
+	 * Currencies outside the ISO table, such as BTC or USDH, are shown with
+	 * their own symbol, names and `symbolPosition`, falling back to the code.
+	 */
+	format(locales?: string | string[], options: FormatOptions = {}): string {
+		return formatDecimalString(
+			this.toDecimalString(),
+			this.#currency,
+			locales,
+			options,
+		);
+	}
+
 	// Serialization
 
-	toJSON(): { amount: number; currency: string } {
+	toJSON(): MoneyJSON {
 		return {
 			amount: this.toMinor(),
 			currency: this.#currency.code,
 		};
 	}
+
+	/**
+	 * Like `toJSON()` but with the amount as an integer string, so values
+	 * beyond the safe integer range survive `JSON.stringify`.
+	 */
+	toBigIntJSON(): MoneyBigIntJSON {
+		return {
+			amount: this.#minor.toString(),
+			currency: this.#currency.code,
+		};
+	}
+
+	/**
+	 * Restores a Money value from the `{ amount, currency }` shape produced by
+	 * `toJSON()`. The currency code is resolved against the built-in `Currency`
+	 * table unless a registry of custom definitions is supplied.
+	 * A string amount (the `toBigIntJSON()` shape) yields an unbounded value.
+	 * Throws `MoneyJSONError` naming the offending field.
+	 */
+	static fromJSON(value: unknown, registry?: CurrencySource): Money {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			throw new MoneyJSONError(
+				"value",
+				"Invalid Money JSON: expected an object with amount and currency",
+			);
+		}
+
+		const { amount, currency } = value as Record<string, unknown>;
+
+		if (typeof currency !== "string" || currency === "") {
+			throw new MoneyJSONError(
+				"currency",
+				"Invalid Money JSON: currency must be a non-empty string",
+			);
+		}
+		if (typeof amount === "string") {
+			if (!/^-?\d+$/.test(amount)) {
+				throw new MoneyJSONError(
+					"amount",
+					"Invalid Money JSON: amount string must be an integer",
+				);
+			}
+		} else if (typeof amount !== "number" || !Number.isInteger(amount)) {
+			throw new MoneyJSONError(
+				"amount",
+				"Invalid Money JSON: amount must be an integer number of minor units",
+			);
+		} else if (!Number.isSafeInteger(amount)) {
+			throw new MoneyJSONError(
+				"amount",
+				"Invalid Money JSON: amount exceeds safe integer range",
+			);
+		}
+
+		const definition = findCurrency(currency, registry);
+		if (definition === undefined) {
+			throw new MoneyJSONError(
+				"currency",
+				`Invalid Money JSON: unknown currency code "${currency}"`,
+			);
+		}
+
+		return new Money(BigInt(amount), definition, typeof amount === "string");
+	}
+
+	/**
+	 * Parses a JSON string produced by `JSON.stringify(money)`.
+	 */
+	static parse(text: string, registry?: CurrencySource): Money {
+		let value: unknown;
+		try {
+			value = JSON.parse(text);
+		} catch {
+			throw new MoneyJSONError("value", "Invalid Money JSON: malformed JSON");
+		}
+		return Money.fromJSON(value, registry);
+	}
 }
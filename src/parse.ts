@@ -0,0 +1,222 @@
+import type { CurrencyDefinition } from "./currency";
+import { MoneyParseError } from "./errors";
+
+// Hyphen-minus, minus sign, figure dash, en dash, small and fullwidth hyphen-minus
+const MINUS_SIGNS = ["-", "\u2212", "\u2012", "\u2013", "\ufe63", "\uff0d"];
+// Space, no-break space, narrow no-break space, thin space
+const SPACES = [" ", "\u00a0", "\u202f", "\u2009"];
+const APOSTROPHES = ["'", "\u2019"];
+
+interface LocaleSymbols {
+	group: string[];
+	decimal: string;
+	minus: string[];
+	currency: string[];
+	digits: Map<string, string>;
+}
+
+function getLocaleSymbols(
+	currency: CurrencyDefinition,
+	locales: string | string[] | undefined,
+): LocaleSymbols {
+	const numberParts = new Intl.NumberFormat(locales).formatToParts(-1234567.5);
+	const partValue = (type: Intl.NumberFormatPartTypes) =>
+		numberParts.find((part) => part.type === type)?.value;
+
+	const group = partValue("group") ?? ",";
+	const decimal = partValue("decimal") ?? ".";
+	const minus = partValue("minusSign");
+
+	// Users type a plain space or apostrophe where the locale uses a
+	// non-breaking space or typographic apostrophe
+	const groups = SPACES.includes(group)
+		? SPACES
+		: APOSTROPHES.includes(group)
+			? APOSTROPHES
+			: [group];
+
+	const currencyTokens = new Set([currency.code, currency.code.toLowerCase()]);
+	if (/^[A-Za-z]{3}$/.test(currency.code)) {
+		for (const currencyDisplay of ["symbol", "narrowSymbol", "code"] as const) {
+			const parts = new Intl.NumberFormat(locales, {
+				style: "currency",
+				currency: currency.code,
+				currencyDisplay,
+			}).formatToParts(1);
+			const symbol = parts.find((part) => part.type === "currency")?.value;
+			if (symbol) currencyTokens.add(symbol);
+		}
+	}
+
+	const digitFormatter = new Intl.NumberFormat(locales, { useGrouping: false });
+	const digits = new Map<string, string>();
+	for (let d = 0; d <= 9; d++) {
+		digits.set(String(d), String(d));
+		digits.set(digitFormatter.format(d), String(d));
+	}
+
+	return {
+		group: groups,
+		decimal,
+		minus:
+			minus && !MINUS_SIGNS.includes(minus)
+				? [...MINUS_SIGNS, minus]
+				: MINUS_SIGNS,
+		// Longest first so "US$" wins over "$"
+		currency: [...currencyTokens].sort((a, b) => b.length - a.length),
+		digits,
+	};
+}
+
+/**
+ * Parses an amount typed in the conventions of `locales` ("1.234,56",
+ * "1 234,56 kr", "$1,234.56", "(12.00)") into a plain decimal string such as
+ * "-1234.56" suitable for `Money.fromString`.
+ * Throws `MoneyParseError` with the position of the first offending character.
+ */
+export function parseLocalizedDecimal(
+	input: string,
+	currency: CurrencyDefinition,
+	locales: string | string[] | undefined,
+): string {
+	const symbols = getLocaleSymbols(currency, locales);
+	const fail = (position: number, message: string): never => {
+		throw new MoneyParseError(input, position, message);
+	};
+	const matchAny = (candidates: string[], at: number) =>
+		candidates.find((candidate) => input.startsWith(candidate, at));
+
+	let i = 0;
+	let negative = false;
+	let openParen = -1;
+	let closedParen = false;
+	let sawSign = false;
+	let sawCurrency = false;
+
+	const skipSpaces = () => {
+		while (i < input.length && /\s/.test(input.charAt(i))) i++;
+	};
+
+	const tryCurrency = (): boolean => {
+		const token = matchAny(symbols.currency, i);
+		if (token === undefined) return false;
+		if (sawCurrency) fail(i, "Duplicate currency symbol");
+		sawCurrency = true;
+		i += token.length;
+		return true;
+	};
+
+	const trySign = (): boolean => {
+		const minus = matchAny(symbols.minus, i);
+		const sign = minus ?? (input.charAt(i) === "+" ? "+" : undefined);
+		if (sign === undefined) return false;
+		if (sawSign || openParen !== -1) fail(i, "Unexpected sign");
+		sawSign = true;
+		negative = minus !== undefined;
+		i += sign.length;
+		return true;
+	};
+
+	// Prefix: sign, opening parenthesis and currency in any order
+	for (;;) {
+		skipSpaces();
+		if (tryCurrency() || trySign()) continue;
+		if (input.charAt(i) === "(") {
+			if (openParen !== -1 || sawSign) fail(i, "Unexpected parenthesis");
+			openParen = i;
+			i++;
+			continue;
+		}
+		break;
+	}
+
+	// Number: digits with optional grouping and a single decimal separator
+	const numberStart = i;
+	let intDigits = "";
+	let decDigits: string | undefined;
+	const groupSizes: number[] = [];
+	let leadingDigits = 0;
+	let lastGroupAt = -1;
+
+	for (;;) {
+		const char = input.charAt(i);
+		const digit = symbols.digits.get(char);
+		if (digit !== undefined) {
+			if (decDigits === undefined) {
+				intDigits += digit;
+				if (groupSizes.length > 0) {
+					groupSizes[groupSizes.length - 1] =
+						(groupSizes[groupSizes.length - 1] ?? 0) + 1;
+				}
+			} else {
+				decDigits += digit;
+			}
+			i++;
+			continue;
+		}
+
+		if (input.startsWith(symbols.decimal, i) && decDigits === undefined) {
+			if (!symbols.digits.has(input.charAt(i + symbols.decimal.length))) {
+				fail(i, "Expected digit after decimal separator");
+			}
+			decDigits = "";
+			i += symbols.decimal.length;
+			continue;
+		}
+
+		const group = matchAny(symbols.group, i);
+		if (group !== undefined && intDigits !== "") {
+			// A separator not followed by a digit ends the number ("1 234 kr")
+			if (!symbols.digits.has(input.charAt(i + group.length))) break;
+			if (decDigits !== undefined) fail(i, "Unexpected group separator");
+			if (groupSizes.length === 0) leadingDigits = intDigits.length;
+			groupSizes.push(0);
+			lastGroupAt = i;
+			i += group.length;
+			continue;
+		}
+		break;
+	}
+
+	if (intDigits === "" && decDigits === undefined) {
+		fail(numberStart, i < input.length ? "Expected a number" : "Empty input");
+	}
+
+	// Grouped digits must form groups of two or three, ending with three,
+	// so "12.5" typed in a locale grouping with "." is rejected, not read as 125
+	const lastGroup = groupSizes[groupSizes.length - 1];
+	if (
+		lastGroup !== undefined &&
+		(lastGroup !== 3 ||
+			leadingDigits > 3 ||
+			groupSizes.some((size) => size < 2 || size > 3))
+	) {
+		fail(lastGroupAt, "Invalid digit grouping");
+	}
+
+	// Suffix: currency, closing parenthesis, trailing minus
+	for (;;) {
+		skipSpaces();
+		if (i >= input.length) break;
+		if (tryCurrency()) continue;
+		if (input.charAt(i) === ")") {
+			if (openParen === -1 || closedParen) fail(i, "Unexpected parenthesis");
+			closedParen = true;
+			i++;
+			continue;
+		}
+		if (!sawSign && openParen === -1 && matchAny(symbols.minus, i)) {
+			trySign();
+			continue;
+		}
+		fail(i, `Unexpected character "${input.charAt(i)}"`);
+	}
+
+	if (openParen !== -1 && !closedParen) {
+		fail(input.length, "Missing closing parenthesis");
+	}
+
+	const sign = negative || openParen !== -1 ? "-" : "";
+	const decimal = decDigits === undefined ? "" : `.${decDigits}`;
+	return `${sign}${intDigits || "0"}${decimal}`;
+}
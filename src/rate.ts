@@ -0,0 +1,321 @@
+import {
+	DECIMAL_STRING_PATTERN,
+	type DecimalInput,
+	divideAndRound,
+	integerRoot,
+	MAX_DECIMAL_EXPONENT,
+	type RoundingMode,
+} from "./decimal";
+
+/**
+ * Anything accepted where a rate, percentage or increment is expected: a
+ * number, a decimal string ("1.38925039713376021934"), a fraction string
+ * ("1/3"), a whole bigint, a `[numerator, denominator]` bigint pair or a Rate.
+ */
+export type RateInput =
+	| DecimalInput
+	| Rate
+	| readonly [numerator: bigint, denominator: bigint];
+
+const FRACTION_STRING_PATTERN = /^(-?\d+)\/(\d+)$/;
+
+export function gcd(a: bigint, b: bigint): bigint {
+	let x = a < 0n ? -a : a;
+	let y = b;
+	while (y !== 0n) {
+		[x, y] = [y, x % y];
+	}
+	return x;
+}
+
+/** Parses a decimal string exactly into a numerator and power-of-ten denominator. */
+function parseDecimalFraction(str: string): [bigint, bigint] {
+	const negative = str.startsWith("-");
+	const unsigned = negative ? str.slice(1) : str;
+
+	const eIndex = unsigned.toLowerCase().indexOf("e");
+	const mantissa = eIndex === -1 ? unsigned : unsigned.slice(0, eIndex);
+	const exponent = eIndex === -1 ? 0 : parseInt(unsigned.slice(eIndex + 1), 10);
+
+	const dotIndex = mantissa.indexOf(".");
+	const intPart = dotIndex === -1 ? mantissa : mantissa.slice(0, dotIndex);
+	const decPart = dotIndex === -1 ? "" : mantissa.slice(dotIndex + 1);
+
+	let numerator = BigInt(`${intPart}${decPart}` || "0");
+	if (numerator === 0n) return [0n, 1n];
+	if (Math.abs(exponent) > MAX_DECIMAL_EXPONENT) {
+		throw new Error(
+			`Exponent out of range: ${exponent} exceeds ±${MAX_DECIMAL_EXPONENT}`,
+		);
+	}
+	let denominator = 1n;
+	const shift = exponent - decPart.length;
+	if (shift >= 0) {
+		numerator *= 10n ** BigInt(shift);
+	} else {
+		denominator = 10n ** BigInt(-shift);
+	}
+	return [negative ? -numerator : numerator, denominator];
+}
+
+/** Formats `scaled / 10^places` as a plain decimal string. */
+function formatScaled(scaled: bigint, places: number): string {
+	const negative = scaled < 0n;
+	const digits = (negative ? -scaled : scaled)
+		.toString()
+		.padStart(places + 1, "0");
+	const intPart = digits.slice(0, digits.length - places);
+	const decPart = digits.slice(digits.length - places);
+	return `${negative ? "-" : ""}${intPart}${decPart ? `.${decPart}` : ""}`;
+}
+
+/**
+ * An exact rational number, used for exchange rates, percentages and
+ * rounding increments. Unlike a JS number it keeps every digit of a feed
+ * value such as "1.38925039713376021934" and can represent 1/3 exactly.
+ * Always stored in lowest terms with a positive denominator.
+ */
+export class Rate {
+	readonly #numerator: bigint;
+	readonly #denominator: bigint;
+
+	private constructor(numerator: bigint, denominator: bigint) {
+		const divisor = gcd(numerator, denominator) || 1n;
+		this.#numerator = numerator / divisor;
+		this.#denominator = denominator / divisor;
+	}
+
+	get numerator(): bigint {
+		return this.#numerator;
+	}
+
+	get denominator(): bigint {
+		return this.#denominator;
+	}
+
+	static fraction(numerator: bigint, denominator: bigint): Rate {
+		if (denominator === 0n) {
+			throw new Error("Rate denominator cannot be zero");
+		}
+		return denominator < 0n
+			? new Rate(-numerator, -denominator)
+			: new Rate(numerator, denominator);
+	}
+
+	static from(input: RateInput): Rate {
+		if (input instanceof Rate) {
+			return input;
+		}
+		if (typeof input === "bigint") {
+			return new Rate(input, 1n);
+		}
+		if (typeof input === "number") {
+			if (!Number.isFinite(input)) {
+				throw new Error("Rate must be a finite number");
+			}
+			// Shortest round-trip form, so 1e-7 is read as exactly 0.0000001
+			return Rate.parse(String(input));
+		}
+		if (typeof input === "string") {
+			return Rate.parse(input);
+		}
+		const [numerator, denominator] = input;
+		return Rate.fraction(numerator, denominator);
+	}
+
+	/** Parses a decimal string ("0.92", "1e-5") or a fraction ("1/3"). */
+	static parse(text: string): Rate {
+		const fraction = FRACTION_STRING_PATTERN.exec(text);
+		if (fraction !== null) {
+			return Rate.fraction(
+				BigInt(fraction[1] ?? ""),
+				BigInt(fraction[2] ?? ""),
+			);
+		}
+		if (!DECIMAL_STRING_PATTERN.test(text)) {
+			throw new Error(`Rate is not a valid decimal or fraction: "${text}"`);
+		}
+		const [numerator, denominator] = parseDecimalFraction(text);
+		return new Rate(numerator, denominator);
+	}
+
+	isZero(): boolean {
+		return this.#numerator === 0n;
+	}
+
+	isPositive(): boolean {
+		return this.#numerator > 0n;
+	}
+
+	isNegative(): boolean {
+		return this.#numerator < 0n;
+	}
+
+	add(other: RateInput): Rate {
+		const rate = Rate.from(other);
+		return new Rate(
+			this.#numerator * rate.#denominator + rate.#numerator * this.#denominator,
+			this.#denominator * rate.#denominator,
+		);
+	}
+
+	subtract(other: RateInput): Rate {
+		const rate = Rate.from(other);
+		return new Rate(
+			this.#numerator * rate.#denominator - rate.#numerator * this.#denominator,
+			this.#denominator * rate.#denominator,
+		);
+	}
+
+	multiply(other: RateInput): Rate {
+		const rate = Rate.from(other);
+		return new Rate(
+			this.#numerator * rate.#numerator,
+			this.#denominator * rate.#denominator,
+		);
+	}
+
+	divide(other: RateInput): Rate {
+		return this.multiply(Rate.from(other).invert());
+	}
+
+	invert(): Rate {
+		if (this.#numerator === 0n) {
+			throw new Error("Cannot invert a zero rate");
+		}
+		return Rate.fraction(this.#denominator, this.#numerator);
+	}
+
+	/** Returns -1, 0 or 1, like `Money#compare`. */
+	compare(other: RateInput): number {
+		const rate = Rate.from(other);
+		const difference =
+			this.#numerator * rate.#denominator - rate.#numerator * this.#denominator;
+		return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+	}
+
+	equals(other: RateInput): boolean {
+		const rate = Rate.from(other);
+		return (
+			this.#numerator === rate.#numerator &&
+			this.#denominator === rate.#denominator
+		);
+	}
+
+	/** Nearest JS number; may lose precision. */
+	toNumber(): number {
+		const decimal = this.#terminatingDecimal();
+		return decimal === undefined
+			? Number(this.#numerator) / Number(this.#denominator)
+			: Number(decimal);
+	}
+
+	/** Exact decimal string when the value terminates, otherwise "n/d". */
+	toString(): string {
+		return (
+			this.#terminatingDecimal() ?? `${this.#numerator}/${this.#denominator}`
+		);
+	}
+
+	/** Decimal string rounded to exactly `decimalPlaces` places, e.g. "33.33". */
+	toFixed(decimalPlaces: number, mode: RoundingMode = "round"): string {
+		if (!Number.isInteger(decimalPlaces) || decimalPlaces < 0) {
+			throw new Error("Decimal places must be a non-negative integer");
+		}
+		const scaled = divideAndRound(
+			this.#numerator * 10n ** BigInt(decimalPlaces),
+			this.#denominator,
+			mode,
+		);
+		return formatScaled(scaled, decimalPlaces);
+	}
+
+	toJSON(): string {
+		return this.toString();
+	}
+
+	#terminatingDecimal(): string | undefined {
+		// A reduced fraction terminates iff its denominator is 2^a * 5^b
+		let rest = this.#denominator;
+		let twos = 0;
+		let fives = 0;
+		while (rest % 2n === 0n) {
+			rest /= 2n;
+			twos++;
+		}
+		while (rest % 5n === 0n) {
+			rest /= 5n;
+			fives++;
+		}
+		if (rest !== 1n) return undefined;
+
+		const places = Math.max(twos, fives);
+		const scaled =
+			this.#numerator * (10n ** BigInt(places) / this.#denominator);
+		return formatScaled(scaled, places);
+	}
+}
+
+/** Rounds an exact value to a whole number with the given mode. */
+export function roundRate(value: Rate, mode: RoundingMode): bigint {
+	return divideAndRound(value.numerator, value.denominator, mode);
+}
+
+/** `rate` raised to a non-negative whole `exponent`, exactly. */
+export function powerRate(rate: Rate, exponent: bigint): Rate {
+	return Rate.fraction(
+		rate.numerator ** exponent,
+		rate.denominator ** exponent,
+	);
+}
+
+// Decimal places kept by `rootRate`
+const ROOT_SCALE = 10n ** 30n;
+
+/** The `n`th root of a positive `rate`, to 30 decimal places, rounded down. */
+export function rootRate(rate: Rate, n: bigint): Rate {
+	const root = integerRoot(
+		(rate.numerator * ROOT_SCALE ** n) / rate.denominator,
+		n,
+	);
+	return Rate.fraction(root, ROOT_SCALE);
+}
+
+/**
+ * Rounds the sum of `exact` once, then splits it back over the parts with the
+ * largest-remainder method so the parts add up to the rounded total. Pass
+ * `total` to split a total that was rounded elsewhere.
+ */
+export function allocateRounded(
+	exact: readonly Rate[],
+	mode: RoundingMode,
+	total?: bigint,
+): bigint[] {
+	const target =
+		total ??
+		roundRate(
+			exact.reduce((sum, value) => sum.add(value), Rate.from(0n)),
+			mode,
+		);
+	const floors = exact.map((value) => roundRate(value, "floor"));
+	let remainder = target - floors.reduce((sum, value) => sum + value, 0n);
+
+	const order = exact
+		.map((value, index) => ({
+			index,
+			fraction: value.subtract(floors[index] ?? 0n),
+		}))
+		.sort((a, b) => b.fraction.compare(a.fraction) || a.index - b.index);
+	for (const { index } of order) {
+		if (remainder <= 0n) break;
+		floors[index] = (floors[index] ?? 0n) + 1n;
+		remainder--;
+	}
+	// A total below the floors is taken from the smallest remainders first
+	for (const { index } of order.reverse()) {
+		if (remainder >= 0n) break;
+		floors[index] = (floors[index] ?? 0n) - 1n;
+		remainder++;
+	}
+	return floors;
+}
@@ -0,0 +1,222 @@
+import type { RoundingMode } from "./decimal";
+import { Money } from "./money";
+import { allocateRounded, Rate, type RateInput, roundRate } from "./rate";
+
+/**
+ * One tax in a stack, e.g. `{ id: "state", percent: 6.25 }`. A compound tax
+ * is charged on the net amount plus every tax listed before it.
+ */
+export interface TaxRate {
+	id: string;
+	percent: RateInput;
+	compound?: boolean;
+}
+
+/**
+ * A taxable line. `exempt: true` exempts it from every rate; a list of ids
+ * exempts it from those rates only.
+ */
+export interface TaxableLine {
+	amount: Money;
+	exempt?: boolean | readonly string[];
+}
+
+export interface TaxOptions {
+	/** Whether line amounts exclude tax (default) or already include it */
+	pricing?: "exclusive" | "inclusive";
+	/** Round each line's taxes (default) or each rate's invoice total */
+	roundingLevel?: "line" | "invoice";
+	rounding?: RoundingMode;
+}
+
+export interface TaxAmount {
+	id: string;
+	amount: Money;
+}
+
+export interface TaxLineBreakdown {
+	net: Money;
+	taxes: TaxAmount[];
+	tax: Money;
+	gross: Money;
+}
+
+/**
+ * Result of a tax calculation. Per-rate amounts sum exactly to `tax`, and
+ * `net + tax === gross`, both for the totals and for every line.
+ */
+export interface TaxBreakdown extends TaxLineBreakdown {
+	lines: TaxLineBreakdown[];
+}
+
+interface PreparedRate {
+	id: string;
+	fraction: Rate;
+	compound: boolean;
+}
+
+function prepareRates(rates: readonly TaxRate[]): PreparedRate[] {
+	const ids = new Set<string>();
+	return rates.map((rate) => {
+		if (ids.has(rate.id)) {
+			throw new Error(`Duplicate tax rate "${rate.id}"`);
+		}
+		ids.add(rate.id);
+		const percent = Rate.from(rate.percent);
+		if (percent.isNegative()) {
+			throw new Error(`Tax rate "${rate.id}" must not be negative`);
+		}
+		return {
+			id: rate.id,
+			fraction: percent.divide(100n),
+			compound: rate.compound ?? false,
+		};
+	});
+}
+
+/**
+ * Each rate's tax as a fraction of the line's net amount, with exempt rates
+ * at zero and compound rates applied on top of the taxes before them.
+ */
+function lineMultipliers(
+	rates: readonly PreparedRate[],
+	exempt: TaxableLine["exempt"],
+): Rate[] {
+	if (Array.isArray(exempt)) {
+		for (const id of exempt) {
+			if (!rates.some((rate) => rate.id === id)) {
+				throw new Error(`Unknown tax rate "${id}" in exemption`);
+			}
+		}
+	}
+	const isExempt = (id: string) =>
+		exempt === true || (Array.isArray(exempt) && exempt.includes(id));
+
+	const multipliers: Rate[] = [];
+	let taxed = Rate.from(0n);
+	for (const rate of rates) {
+		const multiplier = isExempt(rate.id)
+			? Rate.from(0n)
+			: rate.compound
+				? taxed.add(1n).multiply(rate.fraction)
+				: rate.fraction;
+		multipliers.push(multiplier);
+		taxed = taxed.add(multiplier);
+	}
+	return multipliers;
+}
+
+/**
+ * Computes tax for one or more lines against a stack of rates.
+ *
+ * With exclusive pricing the line amounts are net and tax is added on top;
+ * with inclusive pricing they are gross and tax is extracted as
+ * `gross * rate / (1 + total rate)`. Rounding happens per line and rate, or
+ * once per rate for the whole invoice with the result allocated back to the
+ * lines. Either way every component sums exactly to the totals.
+ */
+export function calculateTax(
+	items: Money | TaxableLine | readonly (Money | TaxableLine)[],
+	rates: readonly TaxRate[],
+	options: TaxOptions = {},
+): TaxBreakdown {
+	const {
+		pricing = "exclusive",
+		roundingLevel = "line",
+		rounding = "round",
+	} = options;
+
+	const lines = (Array.isArray(items) ? items : [items]).map(
+		(item: Money | TaxableLine): TaxableLine =>
+			item instanceof Money ? { amount: item } : item,
+	);
+	const first = lines[0];
+	if (first === undefined) {
+		throw new Error("Tax calculation requires at least one line");
+	}
+	const currency = first.amount.currency;
+	// Validates that every line shares the first line's currency
+	Money.sum(lines.map((line) => line.amount));
+
+	const prepared = prepareRates(rates);
+
+	// Exact tax per line and rate, in minor units
+	const exact = lines.map((line) => {
+		const multipliers = lineMultipliers(prepared, line.exempt);
+		const amount = Rate.from(line.amount.toMinorBigInt());
+		const base =
+			pricing === "inclusive"
+				? amount.divide(
+						multipliers.reduce((sum, value) => sum.add(value), Rate.from(1n)),
+					)
+				: amount;
+		return multipliers.map((multiplier) => base.multiply(multiplier));
+	});
+
+	// Rounded tax per line and rate
+	const rounded =
+		roundingLevel === "invoice"
+			? transpose(
+					prepared.map((_, rateIndex) =>
+						allocateRounded(
+							exact.map((lineTaxes) => lineTaxes[rateIndex] ?? Rate.from(0n)),
+							rounding,
+						),
+					),
+				)
+			: exact.map((lineTaxes) =>
+					lineTaxes.map((value) => roundRate(value, rounding)),
+				);
+
+	const toMoney = (minor: bigint, unbounded: boolean) =>
+		Money.fromMinorBigInt(currency, minor, { unbounded });
+
+	const lineBreakdowns = lines.map((line, lineIndex): TaxLineBreakdown => {
+		const unbounded = line.amount.isUnbounded();
+		const taxMinors = rounded[lineIndex] ?? [];
+		const taxMinor = taxMinors.reduce((sum, value) => sum + value, 0n);
+		const amountMinor = line.amount.toMinorBigInt();
+		const netMinor =
+			pricing === "inclusive" ? amountMinor - taxMinor : amountMinor;
+		return {
+			net: toMoney(netMinor, unbounded),
+			taxes: prepared.map((rate, rateIndex) => ({
+				id: rate.id,
+				amount: toMoney(taxMinors[rateIndex] ?? 0n, unbounded),
+			})),
+			tax: toMoney(taxMinor, unbounded),
+			gross: toMoney(netMinor + taxMinor, unbounded),
+		};
+	});
+
+	return {
+		net: Money.sum(lineBreakdowns.map((line) => line.net)),
+		taxes: prepared.map((rate, rateIndex) => ({
+			id: rate.id,
+			amount: Money.sum(
+				lineBreakdowns.map(
+					(line) => line.taxes[rateIndex]?.amount ?? toMoney(0n, false),
+				),
+			),
+		})),
+		tax: Money.sum(lineBreakdowns.map((line) => line.tax)),
+		gross: Money.sum(lineBreakdowns.map((line) => line.gross)),
+		lines: lineBreakdowns,
+	};
+}
+
+/** Extracts the tax contained in tax-inclusive amounts. */
+export function extractTax(
+	items: Money | TaxableLine | readonly (Money | TaxableLine)[],
+	rates: readonly TaxRate[],
+	options: Omit<TaxOptions, "pricing"> = {},
+): TaxBreakdown {
+	return calculateTax(items, rates, { ...options, pricing: "inclusive" });
+}
+
+function transpose(rows: bigint[][]): bigint[][] {
+	const width = rows[0]?.length ?? 0;
+	return Array.from({ length: width }, (_, column) =>
+		rows.map((row) => row[column] ?? 0n),
+	);
+}
@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Money } from "../src";
+
+const minors = (parts: Money[]) => parts.map((part) => part.toMinor());
+
+describe("Money", () => {
+	describe("allocateByRatios", () => {
+		describe("proportional splits", () => {
+			test("splits an order 70/25/5", () => {
+				const order = Money.fromNumber(Currency.USD, 100);
+				const parts = order.allocateByRatios([70, 25, 5]);
+				expect(minors(parts)).toEqual([7000, 2500, 500]);
+			});
+
+			test("distributes remainders to the largest remainders", () => {
+				// 10.00 * [1/6, 2/6, 3/6] = 166.67, 333.33, 500
+				const money = Money.fromNumber(Currency.USD, 10);
+				const parts = money.allocateByRatios([1, 2, 3]);
+				expect(minors(parts)).toEqual([167, 333, 500]);
+			});
+
+			test("accepts decimal ratios as numbers and strings", () => {
+				const money = Money.fromMinor(Currency.USD, 1000);
+				expect(minors(money.allocateByRatios([0.7, 0.3]))).toEqual([700, 300]);
+				expect(minors(money.allocateByRatios(["0.25", "0.75"]))).toEqual([
+					250, 750,
+				]);
+			});
+
+			test("accepts bigint ratios", () => {
+				const money = Money.fromMinor(Currency.USD, 900);
+				expect(minors(money.allocateByRatios([1n, 2n]))).toEqual([300, 600]);
+			});
+
+			test("accepts Money weights for proportional refunds", () => {
+				const lines = [
+					Money.fromNumber(Currency.USD, 19.99),
+					Money.fromNumber(Currency.USD, 5.01),
+					Money.fromNumber(Currency.USD, 75),
+				];
+				const refund = Money.fromNumber(Currency.USD, 10);
+				const parts = refund.allocateByRatios(lines);
+				expect(minors(parts)).toEqual([200, 50, 750]);
+			});
+
+			test("zero ratios receive nothing", () => {
+				const money = Money.fromMinor(Currency.USD, 101);
+				const parts = money.allocateByRatios([1, 0, 1]);
+				expect(minors(parts)).toEqual([51, 0, 50]);
+			});
+
+			test("negative amounts mirror positive allocation", () => {
+				const money = Money.fromMinor(Currency.USD, -1000);
+				const parts = money.allocateByRatios([1, 2, 3]);
+				expect(minors(parts)).toEqual([-167, -333, -500]);
+			});
+
+			test("sum always equals the input", () => {
+				const money = Money.fromMinor(Currency.USD, 100003);
+				const parts = money.allocateByRatios([3, 7, 11, 13, 0.5, "2.25"]);
+				expect(Money.sum(parts).equals(money)).toBe(true);
+			});
+
+			test("Money.allocateByRatios matches the instance method", () => {
+				const money = Money.fromMinor(Currency.EUR, 1001);
+				expect(minors(Money.allocateByRatios(money, [1, 1, 1]))).toEqual(
+					minors(money.allocateByRatios([1, 1, 1])),
+				);
+			});
+		});
+
+		describe("tie-break", () => {
+			const money = Money.fromMinor(Currency.USD, 100);
+
+			test("defaults to the earliest entries", () => {
+				expect(minors(money.allocateByRatios([1, 1, 1]))).toEqual([34, 33, 33]);
+			});
+
+			test("last favours the latest entries", () => {
+				expect(
+					minors(money.allocateByRatios([1, 1, 1], { tieBreak: "last" })),
+				).toEqual([33, 33, 34]);
+			});
+
+			test("largestRatio favours the heaviest weight", () => {
+				// 0.03 * [1, 2, 3] / 6 = 0.5, 1, 1.5 cents: the 1 and 3 weights tie
+				const small = Money.fromMinor(Currency.USD, 3);
+				expect(
+					minors(
+						small.allocateByRatios([1, 2, 3], { tieBreak: "largestRatio" }),
+					),
+				).toEqual([0, 1, 2]);
+				expect(minors(small.allocateByRatios([1, 2, 3]))).toEqual([1, 1, 1]);
+			});
+		});
+
+		describe("validation", () => {
+			const money = Money.fromMinor(Currency.USD, 100);
+
+			test("throws for empty ratios", () => {
+				expect(() => money.allocateByRatios([])).toThrow("at least one ratio");
+			});
+
+			test("throws for negative ratios", () => {
+				expect(() => money.allocateByRatios([1, -1])).toThrow("non-negative");
+			});
+
+			test("throws when all ratios are zero", () => {
+				expect(() => money.allocateByRatios([0, 0])).toThrow(
+					"at least one positive ratio",
+				);
+			});
+
+			test("throws for invalid ratio strings and non-finite numbers", () => {
+				expect(() => money.allocateByRatios(["abc"])).toThrow(
+					"not a valid decimal string",
+				);
+				expect(() => money.allocateByRatios([Number.NaN])).toThrow(
+					"must be a finite number",
+				);
+			});
+
+			test("throws for Money weights in different currencies", () => {
+				expect(() =>
+					money.allocateByRatios([
+						Money.fromMinor(Currency.USD, 1),
+						Money.fromMinor(Currency.EUR, 1),
+					]),
+				).toThrow("currency mismatch");
+			});
+		});
+	});
+});
@@ -0,0 +1,239 @@
+import { describe, expect, test } from "bun:test";
+import { type AmortizationSchedule, amortize, Currency, Money } from "../src";
+
+function expectConsistent(schedule: AmortizationSchedule, principal: Money) {
+	expect(schedule.totalPrincipal.equals(principal)).toBe(true);
+	expect(
+		schedule.totalPrincipal
+			.add(schedule.totalInterest)
+			.equals(schedule.totalPayment),
+	).toBe(true);
+	let balance = principal;
+	for (const entry of schedule.payments) {
+		expect(entry.principal.add(entry.interest).equals(entry.payment)).toBe(
+			true,
+		);
+		balance = balance.subtract(entry.principal);
+		expect(entry.balance.equals(balance)).toBe(true);
+	}
+	expect(balance.isZero()).toBe(true);
+}
+
+describe("amortize", () => {
+	describe("annuity", () => {
+		test("matches the standard mortgage payment", () => {
+			const principal = Money.fromNumber(Currency.USD, 200_000);
+			const schedule = amortize(principal, { annualRate: 6, periods: 360 });
+			expect(schedule.payments).toHaveLength(360);
+			expect(schedule.payments[0]?.payment.toNumber()).toBe(1199.1);
+			expect(schedule.payments[0]?.interest.toNumber()).toBe(1000);
+			expect(schedule.payments[0]?.principal.toNumber()).toBe(199.1);
+			expectConsistent(schedule, principal);
+		});
+
+		test("adjusts the final payment for rounding", () => {
+			const principal = Money.fromNumber(Currency.USD, 1000);
+			const schedule = amortize(principal, { annualRate: 12, periods: 3 });
+			// Level payment 340.02
+			expect(schedule.payments.map((p) => p.payment.toNumber())).toEqual([
+				340.02, 340.02, 340.03,
+			]);
+			expectConsistent(schedule, principal);
+		});
+
+		test("splits interest-free installments evenly", () => {
+			const principal = Money.fromNumber(Currency.USD, 100);
+			const schedule = amortize(principal, {
+				annualRate: 0,
+				periods: 3,
+				frequency: "biweekly",
+			});
+			expect(schedule.payments.map((p) => p.payment.toNumber())).toEqual([
+				33.33, 33.33, 33.34,
+			]);
+			expect(schedule.totalInterest.isZero()).toBe(true);
+		});
+	});
+
+	test("equalPrincipal repays the same principal every period", () => {
+		const principal = Money.fromNumber(Currency.USD, 1200);
+		const schedule = amortize(principal, {
+			annualRate: 12,
+			periods: 12,
+			method: "equalPrincipal",
+		});
+		expect(schedule.payments[0]?.principal.toNumber()).toBe(100);
+		expect(schedule.payments[0]?.payment.toNumber()).toBe(112);
+		expect(schedule.payments[11]?.payment.toNumber()).toBe(101);
+		expectConsistent(schedule, principal);
+	});
+
+	test("interestOnly repays principal with the last payment", () => {
+		const principal = Money.fromNumber(Currency.USD, 10_000);
+		const schedule = amortize(principal, {
+			annualRate: 6,
+			periods: 4,
+			method: "interestOnly",
+			frequency: "quarterly",
+		});
+		expect(schedule.payments.map((p) => p.payment.toNumber())).toEqual([
+			150, 150, 150, 10_150,
+		]);
+		expectConsistent(schedule, principal);
+	});
+
+	test("balloon leaves the balloon amount for the last payment", () => {
+		const principal = Money.fromNumber(Currency.USD, 10_000);
+		const schedule = amortize(principal, {
+			annualRate: 5,
+			periods: 12,
+			method: "balloon",
+			balloon: Money.fromNumber(Currency.USD, 5000),
+		});
+		expect(schedule.payments[0]?.payment.toNumber()).toBe(448.87);
+		const last = schedule.payments[11];
+		expect(last?.principal.toNumber()).toBeCloseTo(5426.28, 1);
+		expectConsistent(schedule, principal);
+	});
+
+	describe("compounding", () => {
+		test("converts semiannual compounding to a monthly rate", () => {
+			// Canadian mortgage: 6% compounded semiannually, 25 years
+			const principal = Money.fromNumber(Currency.USD, 200_000);
+			const schedule = amortize(principal, {
+				annualRate: 6,
+				periods: 300,
+				compounding: "semiannual",
+			});
+			expect(schedule.payments[0]?.payment.toNumber()).toBe(1279.61);
+			expectConsistent(schedule, principal);
+		});
+
+		test("converts monthly compounding to quarterly payments", () => {
+			const principal = Money.fromNumber(Currency.USD, 1000);
+			const schedule = amortize(principal, {
+				annualRate: 12,
+				periods: 4,
+				frequency: "quarterly",
+				compounding: "monthly",
+			});
+			// (1.01)^3 - 1 = 3.0301%
+			expect(schedule.payments[0]?.interest.toNumber()).toBe(30.3);
+			expectConsistent(schedule, principal);
+		});
+
+		test("supports daily compounding", () => {
+			const principal = Money.fromNumber(Currency.USD, 5000);
+			const schedule = amortize(principal, {
+				annualRate: 9.99,
+				periods: 24,
+				compounding: "daily",
+			});
+			expectConsistent(schedule, principal);
+		});
+	});
+
+	describe("dates and day counts", () => {
+		test("schedules payments one period apart, clamped to month ends", () => {
+			const schedule = amortize(Money.fromNumber(Currency.USD, 1000), {
+				annualRate: 5,
+				periods: 3,
+				startDate: new Date("2024-01-31T00:00:00Z"),
+			});
+			expect(
+				schedule.payments.map((p) => p.date?.toISOString().slice(0, 10)),
+			).toEqual(["2024-02-29", "2024-03-31", "2024-04-30"]);
+		});
+
+		test("charges interest over actual days", () => {
+			const principal = Money.fromNumber(Currency.USD, 1000);
+			const schedule = amortize(principal, {
+				annualRate: 12,
+				periods: 4,
+				startDate: new Date("2024-01-31T00:00:00Z"),
+				dayCount: "ACT/365",
+			});
+			// 29 days of 12% on 1000.00
+			expect(schedule.payments[0]?.interest.toNumber()).toBe(9.53);
+			expect(schedule.payments[1]?.interest.toNumber()).toBe(7.68);
+			expectConsistent(schedule, principal);
+		});
+
+		test("30/360 charges a full month every month", () => {
+			const schedule = amortize(Money.fromNumber(Currency.USD, 1200), {
+				annualRate: 12,
+				periods: 2,
+				method: "interestOnly",
+				startDate: new Date("2023-01-15T00:00:00Z"),
+				dayCount: "30/360",
+			});
+			// February has 28 days but is charged as 30
+			expect(schedule.payments.map((p) => p.interest.toNumber())).toEqual([
+				12, 12,
+			]);
+		});
+	});
+
+	describe("validation", () => {
+		test("rejects invalid loans", () => {
+			expect(() =>
+				amortize(Money.fromNumber(Currency.USD, 100), {
+					annualRate: 5,
+					periods: 0,
+				}),
+			).toThrow("Amortization periods must be a positive integer");
+			expect(() =>
+				amortize(Money.fromNumber(Currency.USD, 0), {
+					annualRate: 5,
+					periods: 1,
+				}),
+			).toThrow("Loan principal must be positive");
+			expect(() =>
+				amortize(Money.fromNumber(Currency.USD, 100), {
+					annualRate: -1,
+					periods: 1,
+				}),
+			).toThrow("Interest rate must not be negative");
+			expect(() =>
+				amortize(Money.fromNumber(Currency.USD, 100), {
+					annualRate: 5,
+					periods: 1,
+					dayCount: "ACT/365",
+				}),
+			).toThrow("A day count convention requires a startDate");
+		});
+
+		test("validates balloon amounts", () => {
+			expect(() =>
+				amortize(Money.fromNumber(Currency.USD, 100), {
+					annualRate: 5,
+					periods: 2,
+					method: "balloon",
+				}),
+			).toThrow("A balloon loan requires a balloon amount");
+			expect(() =>
+				amortize(Money.fromNumber(Currency.USD, 100), {
+					annualRate: 5,
+					periods: 2,
+					method: "balloon",
+					balloon: Money.fromNumber(Currency.USD, 101),
+				}),
+			).toThrow("Balloon amount must be between zero and the principal");
+			expect(() =>
+				amortize(Money.fromNumber(Currency.USD, 100), {
+					annualRate: 5,
+					periods: 2,
+					balloon: Money.fromNumber(Currency.USD, 10),
+				}),
+			).toThrow("A balloon amount is only valid with the balloon method");
+			expect(() =>
+				amortize(Money.fromNumber(Currency.USD, 100), {
+					annualRate: 5,
+					periods: 2,
+					method: "balloon",
+					balloon: Money.fromNumber(Currency.EUR, 1),
+				}),
+			).toThrow("currency mismatch");
+		});
+	});
+});
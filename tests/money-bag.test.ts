@@ -0,0 +1,268 @@
+import { describe, expect, test } from "bun:test";
+import {
+	Currency,
+	defineCurrency,
+	ExchangeRates,
+	Money,
+	MoneyBag,
+	MoneyJSONError,
+} from "../src";
+
+describe("MoneyBag", () => {
+	describe("construction", () => {
+		test("empty bag has no balances", () => {
+			const bag = MoneyBag.empty();
+			expect(bag.size).toBe(0);
+			expect(bag.isEmpty()).toBe(true);
+			expect(bag.isZero()).toBe(true);
+		});
+
+		test("from combines amounts in the same currency", () => {
+			const bag = MoneyBag.from([
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.EUR, 5),
+				Money.fromNumber(Currency.USD, 2.5),
+			]);
+			expect(bag.size).toBe(2);
+			expect(bag.get(Currency.USD).toNumber()).toBe(12.5);
+			expect(bag.get(Currency.EUR).toNumber()).toBe(5);
+		});
+
+		test("rejects conflicting definitions of the same code", () => {
+			const fakeUsd = defineCurrency("USD", 3);
+			expect(() =>
+				MoneyBag.from([
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(fakeUsd, 1),
+				]),
+			).toThrow("currency mismatch");
+		});
+	});
+
+	describe("lookup and iteration", () => {
+		const bag = MoneyBag.from([
+			Money.fromNumber(Currency.USD, 10),
+			Money.fromNumber(Currency.EUR, 5),
+			Money.fromNumber(Currency.BTC, 0.5),
+		]);
+
+		test("get returns zero for a missing currency", () => {
+			const yen = bag.get(Currency.JPY);
+			expect(yen.isZero()).toBe(true);
+			expect(yen.currency).toBe(Currency.JPY);
+		});
+
+		test("has accepts a definition or a code", () => {
+			expect(bag.has(Currency.USD)).toBe(true);
+			expect(bag.has("BTC")).toBe(true);
+			expect(bag.has("JPY")).toBe(false);
+		});
+
+		test("iterates balances in insertion order", () => {
+			expect([...bag].map((money) => money.currency.code)).toEqual([
+				"USD",
+				"EUR",
+				"BTC",
+			]);
+			expect(bag.currencies()).toEqual([
+				Currency.USD,
+				Currency.EUR,
+				Currency.BTC,
+			]);
+		});
+	});
+
+	describe("arithmetic", () => {
+		test("add returns a new bag and leaves the original unchanged", () => {
+			const bag = MoneyBag.from([Money.fromNumber(Currency.USD, 10)]);
+			const next = bag
+				.add(Money.fromNumber(Currency.EUR, 3))
+				.add(Money.fromNumber(Currency.USD, 1));
+			expect(bag.size).toBe(1);
+			expect(next.get(Currency.USD).toNumber()).toBe(11);
+			expect(next.get(Currency.EUR).toNumber()).toBe(3);
+		});
+
+		test("add merges another bag", () => {
+			const a = MoneyBag.from([
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.EUR, 5),
+			]);
+			const b = MoneyBag.from([
+				Money.fromNumber(Currency.EUR, 1),
+				Money.fromNumber(Currency.BTC, 0.1),
+			]);
+			const total = a.add(b);
+			expect(total.get(Currency.EUR).toNumber()).toBe(6);
+			expect(total.get(Currency.BTC).toNumber()).toBe(0.1);
+		});
+
+		test("subtract allows negative balances for new currencies", () => {
+			const bag = MoneyBag.from([Money.fromNumber(Currency.USD, 10)]).subtract(
+				Money.fromNumber(Currency.EUR, 4),
+			);
+			expect(bag.get(Currency.EUR).toNumber()).toBe(-4);
+		});
+
+		test("subtract removes another bag", () => {
+			const a = MoneyBag.from([
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.EUR, 5),
+			]);
+			const result = a.subtract(
+				MoneyBag.from([
+					Money.fromNumber(Currency.USD, 3),
+					Money.fromNumber(Currency.EUR, 5),
+				]),
+			);
+			expect(result.get(Currency.USD).toNumber()).toBe(7);
+			expect(result.get(Currency.EUR).isZero()).toBe(true);
+			expect(result.size).toBe(2);
+		});
+	});
+
+	describe("prune", () => {
+		test("drops zero balances", () => {
+			const bag = MoneyBag.from([
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.EUR, 5),
+			]).subtract(Money.fromNumber(Currency.EUR, 5));
+			const pruned = bag.prune();
+			expect(pruned.size).toBe(1);
+			expect(pruned.has("EUR")).toBe(false);
+			expect(bag.size).toBe(2);
+		});
+
+		test("isZero ignores currencies", () => {
+			const bag = MoneyBag.from([
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.EUR, 2),
+			]).subtract(
+				MoneyBag.from([
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.EUR, 2),
+				]),
+			);
+			expect(bag.isZero()).toBe(true);
+			expect(bag.prune().isEmpty()).toBe(true);
+		});
+	});
+
+	describe("equals", () => {
+		test("compares non-zero balances regardless of order", () => {
+			const a = MoneyBag.from([
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.EUR, 2),
+			]);
+			const b = MoneyBag.from([
+				Money.fromNumber(Currency.EUR, 2),
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.JPY, 0),
+			]);
+			expect(a.equals(b)).toBe(true);
+			expect(a.equals(MoneyBag.from([Money.fromNumber(Currency.USD, 1)]))).toBe(
+				false,
+			);
+			expect(
+				a.equals(
+					MoneyBag.from([
+						Money.fromNumber(Currency.USD, 1),
+						Money.fromNumber(Currency.EUR, 3),
+					]),
+				),
+			).toBe(false);
+		});
+	});
+
+	describe("convertTo", () => {
+		const rates = ExchangeRates.fromJSON({
+			base: "USD",
+			rates: { EUR: "0.8", BTC: "0.00001" },
+		});
+
+		test("collapses every balance into the target currency", () => {
+			const bag = MoneyBag.from([
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.EUR, 8),
+				Money.fromNumber(Currency.BTC, 0.0001),
+			]);
+			const { money, rates: used } = bag.convertTo(Currency.USD, rates);
+			// 10 + 8 / 0.8 + 0.0001 / 0.00001 = 10 + 10 + 10
+			expect(money.toNumber()).toBe(30);
+			expect(money.currency).toBe(Currency.USD);
+			expect(used.map((rate) => rate.derivation)).toEqual([
+				"identity",
+				"inverse",
+				"inverse",
+			]);
+		});
+
+		test("rounds each balance before summing", () => {
+			const bag = MoneyBag.from([
+				Money.fromNumber(Currency.EUR, 0.01),
+				Money.fromNumber(Currency.GBP, 0),
+			]);
+			const table = ExchangeRates.fromJSON({
+				base: "EUR",
+				rates: { USD: "1.5", GBP: "1" },
+			});
+			const { money } = bag.convertTo(Currency.USD, table, {
+				rounding: "floor",
+			});
+			expect(money.toMinor()).toBe(1);
+		});
+
+		test("an empty bag converts to zero", () => {
+			const { money, rates: used } = MoneyBag.empty().convertTo(
+				Currency.EUR,
+				rates,
+			);
+			expect(money.isZero()).toBe(true);
+			expect(used).toEqual([]);
+		});
+
+		test("throws when a balance has no rate", () => {
+			const bag = MoneyBag.from([Money.fromNumber(Currency.GBP, 1)]);
+			expect(() => bag.convertTo(Currency.USD, rates)).toThrow(
+				"No exchange rate available for GBP/USD",
+			);
+		});
+	});
+
+	describe("JSON", () => {
+		test("round-trips through JSON.stringify", () => {
+			const bag = MoneyBag.from([
+				Money.fromNumber(Currency.USD, 10.5),
+				Money.fromNumber(Currency.BTC, 0.25),
+			]);
+			const json = JSON.stringify(bag);
+			expect(JSON.parse(json)).toEqual([
+				{ amount: 1050, currency: "USD" },
+				{ amount: 25000000, currency: "BTC" },
+			]);
+			expect(MoneyBag.fromJSON(JSON.parse(json)).equals(bag)).toBe(true);
+		});
+
+		test("uses string amounts for unbounded balances", () => {
+			const big = Money.fromMinorBigInt(Currency.USD, 10n ** 20n, {
+				unbounded: true,
+			});
+			const json = MoneyBag.from([big]).toJSON();
+			expect(json).toEqual([
+				{ amount: "100000000000000000000", currency: "USD" },
+			]);
+			expect(MoneyBag.fromJSON(json).get(Currency.USD).toMinorBigInt()).toBe(
+				10n ** 20n,
+			);
+		});
+
+		test("rejects non-array input and invalid entries", () => {
+			expect(() => MoneyBag.fromJSON({ amount: 1, currency: "USD" })).toThrow(
+				MoneyJSONError,
+			);
+			expect(() =>
+				MoneyBag.fromJSON([{ amount: 1, currency: "NOPE" }]),
+			).toThrow('unknown currency code "NOPE"');
+		});
+	});
+});
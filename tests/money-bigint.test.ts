@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, defineCurrency, Money } from "../src";
+
+const ETH = defineCurrency("ETH", 18);
+
+describe("Money BigInt surface", () => {
+	describe("fromMinorBigInt / toMinorBigInt", () => {
+		test("round-trips safe values", () => {
+			const money = Money.fromMinorBigInt(Currency.USD, 1234n);
+			expect(money.toMinorBigInt()).toBe(1234n);
+			expect(money.toMinor()).toBe(1234);
+			expect(money.isUnbounded()).toBe(false);
+		});
+
+		test("rejects unsafe values by default", () => {
+			expect(() => Money.fromMinorBigInt(Currency.USD, 2n ** 53n)).toThrow(
+				"Result too large",
+			);
+		});
+
+		test("rejects non-bigint input", () => {
+			expect(() =>
+				Money.fromMinorBigInt(Currency.USD, 12 as unknown as bigint),
+			).toThrow("Minor units must be a bigint");
+		});
+
+		test("accepts unsafe values in unbounded mode", () => {
+			const wei = 123456789012345678901234567890n;
+			const money = Money.fromMinorBigInt(ETH, wei, { unbounded: true });
+			expect(money.toMinorBigInt()).toBe(wei);
+			expect(money.isUnbounded()).toBe(true);
+			expect(money.toDecimalString()).toBe("123456789012.345678901234567890");
+		});
+
+		test("toMinor throws instead of losing precision", () => {
+			const money = Money.fromMinorBigInt(Currency.USD, 2n ** 60n, {
+				unbounded: true,
+			});
+			expect(() => money.toMinor()).toThrow("exceeds safe integer range");
+		});
+	});
+
+	describe("unbounded creation", () => {
+		test("fromString accepts 18-decimal amounts", () => {
+			const money = Money.fromString(ETH, "1.5", { unbounded: true });
+			expect(money.toMinorBigInt()).toBe(1500000000000000000n);
+		});
+
+		test("fromString without unbounded keeps the guard", () => {
+			expect(() => Money.fromString(ETH, "1.5")).toThrow("Result too large");
+		});
+
+		test("fromNumber accepts large values in unbounded mode", () => {
+			const money = Money.fromNumber(Currency.JPY, 1e20, { unbounded: true });
+			expect(money.toMinorBigInt()).toBe(10n ** 20n);
+		});
+	});
+
+	describe("arithmetic in unbounded mode", () => {
+		test("add and subtract beyond the safe range", () => {
+			const a = Money.fromMinorBigInt(Currency.USD, 2n ** 60n, {
+				unbounded: true,
+			});
+			const b = Money.fromMinor(Currency.USD, 1);
+			expect(a.add(b).toMinorBigInt()).toBe(2n ** 60n + 1n);
+			expect(b.subtract(a).toMinorBigInt()).toBe(1n - 2n ** 60n);
+			expect(a.add(b).isUnbounded()).toBe(true);
+		});
+
+		test("sum aggregates treasury-scale balances", () => {
+			const balance = Money.fromMinorBigInt(Currency.BTC, 2n ** 62n, {
+				unbounded: true,
+			});
+			const total = Money.sum([balance, balance, balance, balance]);
+			expect(total.toMinorBigInt()).toBe(2n ** 64n);
+		});
+
+		test("bounded operands still throw on overflow", () => {
+			const a = Money.fromMinor(Currency.USD, Number.MAX_SAFE_INTEGER);
+			expect(() => a.add(a)).toThrow("Result too large");
+		});
+
+		test("derived values keep unbounded mode", () => {
+			const money = Money.fromMinorBigInt(Currency.USD, 3n * 2n ** 60n, {
+				unbounded: true,
+			});
+			const parts = money.allocate(3);
+			expect(parts.every((part) => part.isUnbounded())).toBe(true);
+			expect(parts[0]?.toMinorBigInt()).toBe(2n ** 60n);
+			expect(money.percentOf(200).toMinorBigInt()).toBe(6n * 2n ** 60n);
+			expect(money.convert(Currency.EUR, 2).toMinorBigInt()).toBe(
+				6n * 2n ** 60n,
+			);
+		});
+	});
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, defineCurrency, Money } from "../src";
+
+describe("Money.roundForCash", () => {
+	test("rounds CHF to 5 rappen", () => {
+		expect(
+			Money.fromNumber(Currency.CHF, 12.37).roundForCash().toNumber(),
+		).toBe(12.35);
+		expect(
+			Money.fromNumber(Currency.CHF, 12.38).roundForCash().toNumber(),
+		).toBe(12.4);
+	});
+
+	test("rounds CAD and AUD to 5 cents", () => {
+		expect(Money.fromNumber(Currency.CAD, 1.02).roundForCash().toNumber()).toBe(
+			1,
+		);
+		expect(Money.fromNumber(Currency.AUD, 1.03).roundForCash().toNumber()).toBe(
+			1.05,
+		);
+	});
+
+	test("rounds NZD to 10 cents", () => {
+		expect(Money.fromNumber(Currency.NZD, 1.15).roundForCash().toNumber()).toBe(
+			1.2,
+		);
+	});
+
+	test("rounds SEK to whole kronor", () => {
+		expect(
+			Money.fromNumber(Currency.SEK, 99.49).roundForCash().toNumber(),
+		).toBe(99);
+		expect(Money.fromNumber(Currency.SEK, 99.5).roundForCash().toNumber()).toBe(
+			100,
+		);
+	});
+
+	test("accepts a rounding mode", () => {
+		const money = Money.fromNumber(Currency.CHF, 12.36);
+		expect(money.roundForCash("floor").toNumber()).toBe(12.35);
+		expect(money.roundForCash("ceil").toNumber()).toBe(12.4);
+	});
+
+	test("handles negative amounts", () => {
+		const refund = Money.fromNumber(Currency.CHF, -12.38);
+		expect(refund.roundForCash().toNumber()).toBe(-12.4);
+	});
+
+	test("returns the value unchanged without a cash increment", () => {
+		const money = Money.fromNumber(Currency.USD, 12.37);
+		expect(money.roundForCash().toNumber()).toBe(12.37);
+	});
+
+	test("uses the cash increment of custom currencies", () => {
+		const tokens = defineCurrency("TOK", 2, { cashIncrement: 0.25 });
+		const money = Money.fromNumber(tokens, 1.4);
+		expect(Money.roundForCash(money).toNumber()).toBe(1.5);
+	});
+});
@@ -38,6 +38,14 @@ describe("Money", () => {
 			expect(money.currency).toBe(Currency.EUR);
 		});
 
+		test("rejects integers beyond the safe range", () => {
+			for (const minor of [2 ** 60, -(2 ** 53)]) {
+				expect(() => Money.fromMinor(Currency.USD, minor)).toThrow(
+					"Minor units exceed safe integer range",
+				);
+			}
+		});
+
 		test("throws on decimal input", () => {
 			// Minor units must be integers - decimals throw
 			expect(() => Money.fromMinor(Currency.USD, 1.1)).toThrow(
@@ -161,6 +169,125 @@ describe("Money", () => {
 		});
 	});
 
+	describe("fromString", () => {
+		test("creates Money from a decimal string", () => {
+			const money = Money.fromString(Currency.USD, "12.34");
+			expect(money.toMinor()).toBe(1234);
+		});
+
+		test("handles negative values", () => {
+			const money = Money.fromString(Currency.USD, "-0.10");
+			expect(money.toMinor()).toBe(-10);
+		});
+
+		test("handles scientific notation", () => {
+			expect(Money.fromString(Currency.USDH, "1e-3").toMinor()).toBe(1);
+			expect(Money.fromString(Currency.USD, "1.5E2").toMinor()).toBe(15000);
+		});
+
+		test("handles leading decimal point", () => {
+			expect(Money.fromString(Currency.USD, ".5").toMinor()).toBe(50);
+		});
+
+		test("rounds using the default rounding mode", () => {
+			const money = Money.fromString(Currency.USD, "12.345");
+			expect(money.toMinor()).toBe(1235);
+		});
+
+		test("respects rounding option", () => {
+			const money = Money.fromString(Currency.USD, "12.345", {
+				rounding: "floor",
+			});
+			expect(money.toMinor()).toBe(1234);
+		});
+
+		test("keeps digits a JS number would lose", () => {
+			// 90071992547409.93 is not representable as a double
+			const money = Money.fromString(Currency.USD, "90071992547409.91");
+			expect(money.toMinor()).toBe(9007199254740991);
+		});
+
+		test("keeps all 8 BTC decimal places", () => {
+			const money = Money.fromString(Currency.BTC, "0.00000001");
+			expect(money.toMinor()).toBe(1);
+		});
+
+		test("strict mode allows exact values", () => {
+			const money = Money.fromString(Currency.USD, "12.30", { strict: true });
+			expect(money.toMinor()).toBe(1230);
+		});
+
+		test("strict mode rejects precision loss", () => {
+			expect(() =>
+				Money.fromString(Currency.USD, "12.345", { strict: true }),
+			).toThrow("Precision loss");
+			expect(() =>
+				Money.fromString(Currency.JPY, "1e-1", { strict: true }),
+			).toThrow("Precision loss");
+		});
+
+		test("strict mode rejects digits beyond internal precision", () => {
+			expect(() =>
+				Money.fromString(Currency.USD, "1.0000000000000000000001", {
+					strict: true,
+				}),
+			).toThrow("Precision loss");
+		});
+
+		test("rejects malformed strings", () => {
+			for (const value of [
+				"",
+				"abc",
+				"1.2.3",
+				" 1.5",
+				"1.5 ",
+				"1,5",
+				"1.",
+				"--1",
+				"+1",
+				"1e",
+				"0x10",
+			]) {
+				expect(() => Money.fromString(Currency.USD, value)).toThrow(
+					"Invalid decimal string",
+				);
+			}
+		});
+
+		test("throws when result exceeds safe integer range", () => {
+			expect(() => Money.fromString(Currency.USD, "1e20")).toThrow(
+				"Result too large",
+			);
+		});
+
+		test("does not expand huge exponents", () => {
+			expect(Money.fromString(Currency.USD, "1e-99999999").isZero()).toBe(true);
+			expect(Money.fromString(Currency.USD, "0e99999999").isZero()).toBe(true);
+			expect(() => Money.fromString(Currency.USD, "1e99999999")).toThrow(
+				"Result too large",
+			);
+			expect(() =>
+				Money.fromString(Currency.USD, "1e99999999", { unbounded: true }),
+			).toThrow("Exponent too large");
+		});
+
+		test("accepts large exponents for unbounded Money", () => {
+			const money = Money.fromString(Currency.USD, "1.5e30", {
+				unbounded: true,
+			});
+			expect(money.toMinorBigInt()).toBe(15n * 10n ** 31n);
+		});
+
+		test("keeps small exponents that still reach the minor unit", () => {
+			expect(
+				Money.fromString(
+					Currency.USD,
+					"100000000000000000000000e-24",
+				).toMinor(),
+			).toBe(10);
+		});
+	});
+
 	describe("precision loss with large numbers", () => {
 		test("fromNumber throws when value exceeds safe integer range", () => {
 			// 90071992547409.93 * 100 = 9007199254740993, which exceeds MAX_SAFE_INTEGER
@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import {
+	Currency,
+	CurrencyRegistry,
+	defineCurrency,
+	findCurrency,
+	Money,
+	MoneyJSONError,
+} from "../src";
+
+describe("CurrencyRegistry", () => {
+	describe("register / get / has", () => {
+		test("registers and resolves a definition", () => {
+			const registry = new CurrencyRegistry();
+			const gold = registry.register(defineCurrency("XAU", 4));
+			expect(registry.get("XAU")).toBe(gold);
+			expect(registry.has("XAU")).toBe(true);
+			expect(registry.has("XAG")).toBe(false);
+			expect(registry.get("XAG")).toBeUndefined();
+		});
+
+		test("accepts initial definitions", () => {
+			const registry = new CurrencyRegistry([
+				defineCurrency("XAU", 4),
+				defineCurrency("PTS", 0),
+			]);
+			expect(registry.list().map((c) => c.code)).toEqual(["XAU", "PTS"]);
+		});
+
+		test("re-registering an identical definition returns the existing one", () => {
+			const registry = new CurrencyRegistry();
+			const first = registry.register(defineCurrency("XAU", 4));
+			const second = registry.register(defineCurrency("XAU", 4));
+			expect(second).toBe(first);
+			expect(registry.list()).toHaveLength(1);
+		});
+
+		test("throws on conflicting decimal places", () => {
+			const registry = new CurrencyRegistry([defineCurrency("XAU", 4)]);
+			expect(() => registry.register(defineCurrency("XAU", 6))).toThrow(
+				"Currency XAU is already registered with 4 decimal places",
+			);
+		});
+	});
+
+	describe("withBuiltins", () => {
+		test("contains the built-in table", () => {
+			const registry = CurrencyRegistry.withBuiltins();
+			expect(registry.get("USD")).toBe(Currency.USD);
+			expect(registry.get("USDH")).toBe(Currency.USDH);
+		});
+
+		test("rejects redefining a built-in with another precision", () => {
+			const registry = CurrencyRegistry.withBuiltins();
+			expect(() => registry.register(defineCurrency("USD", 3))).toThrow(
+				"already registered",
+			);
+		});
+	});
+
+	describe("child registries", () => {
+		test("children resolve through their parent", () => {
+			const root = new CurrencyRegistry([defineCurrency("XAU", 4)]);
+			const tenant = root.createChild([defineCurrency("PTS", 0)]);
+			expect(tenant.get("XAU")?.decimalPlaces).toBe(4);
+			expect(tenant.get("PTS")?.decimalPlaces).toBe(0);
+			expect(tenant.list().map((c) => c.code)).toEqual(["XAU", "PTS"]);
+		});
+
+		test("child definitions are invisible to parent and siblings", () => {
+			const root = new CurrencyRegistry();
+			const a = root.createChild([defineCurrency("PTS", 0)]);
+			const b = root.createChild([defineCurrency("PTS", 2)]);
+			expect(root.has("PTS")).toBe(false);
+			expect(a.get("PTS")?.decimalPlaces).toBe(0);
+			expect(b.get("PTS")?.decimalPlaces).toBe(2);
+		});
+
+		test("parents cannot contradict their children", () => {
+			const root = new CurrencyRegistry();
+			const tenant = root.createChild([defineCurrency("TOK", 2)]);
+			expect(() => root.register(defineCurrency("TOK", 5))).toThrow(
+				"already registered with 2 decimal places in a child registry",
+			);
+			expect(root.register(defineCurrency("TOK", 2)).decimalPlaces).toBe(2);
+			expect(tenant.get("TOK")?.decimalPlaces).toBe(2);
+		});
+
+		test("children cannot contradict their parent", () => {
+			const root = new CurrencyRegistry([defineCurrency("XAU", 4)]);
+			const tenant = root.createChild();
+			expect(() => tenant.register(defineCurrency("XAU", 6))).toThrow(
+				"already registered",
+			);
+		});
+	});
+
+	describe("as a currency source", () => {
+		test("findCurrency resolves through a registry", () => {
+			const registry = new CurrencyRegistry([defineCurrency("XAU", 4)]);
+			expect(findCurrency("XAU", registry)?.decimalPlaces).toBe(4);
+		});
+
+		test("Money.fromJSON resolves through a registry", () => {
+			const registry = CurrencyRegistry.withBuiltins().createChild([
+				defineCurrency("XAU", 4),
+			]);
+			const gold = Money.fromJSON({ amount: 12345, currency: "XAU" }, registry);
+			expect(gold.toDecimalString()).toBe("1.2345");
+			const usd = Money.parse('{"amount":100,"currency":"USD"}', registry);
+			expect(usd.currency).toBe(Currency.USD);
+		});
+
+		test("Money.fromJSON reports codes missing from the registry", () => {
+			const registry = new CurrencyRegistry();
+			expect(() =>
+				Money.fromJSON({ amount: 1, currency: "USD" }, registry),
+			).toThrow(MoneyJSONError);
+		});
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, type CurrencyCode, Money } from "../src";
+
+describe("Currency", () => {
+	describe("ISO 4217 table", () => {
+		test("includes newly covered currencies", () => {
+			expect(Currency.TWD).toMatchObject({ code: "TWD", decimalPlaces: 2 });
+			expect(Currency.THB).toMatchObject({ code: "THB", decimalPlaces: 2 });
+			expect(Currency.IDR).toMatchObject({ code: "IDR", decimalPlaces: 2 });
+		});
+
+		test("uses the official minor-unit exponent", () => {
+			expect(Currency.KWD.decimalPlaces).toBe(3);
+			expect(Currency.BHD.decimalPlaces).toBe(3);
+			expect(Currency.OMR.decimalPlaces).toBe(3);
+			expect(Currency.ISK.decimalPlaces).toBe(0);
+			expect(Currency.VND.decimalPlaces).toBe(0);
+			expect(Currency.UGX.decimalPlaces).toBe(0);
+			expect(Currency.CLF.decimalPlaces).toBe(4);
+		});
+
+		test("carries numeric code, name and status", () => {
+			expect(Currency.KWD).toEqual({
+				code: "KWD",
+				decimalPlaces: 3,
+				numericCode: 414,
+				name: "Kuwaiti Dinar",
+				status: "active",
+				symbol: "KWD",
+				narrowSymbol: "KWD",
+				pluralNames: { one: "Kuwaiti dinar", other: "Kuwaiti dinars" },
+			});
+			expect(Currency.DEM.status).toBe("historic");
+		});
+
+		test("keeps the non-ISO currencies", () => {
+			expect(Currency.USDH).toEqual({ code: "USDH", decimalPlaces: 3 });
+			expect(Currency.BTC.decimalPlaces).toBe(8);
+		});
+
+		test("every entry is keyed by its own code", () => {
+			for (const [key, value] of Object.entries(Currency)) {
+				expect<string>(value.code).toBe(key);
+			}
+		});
+
+		test("lookup functions are not enumerated with the table", () => {
+			expect(Object.keys(Currency)).not.toContain("fromCode");
+			expect(
+				Object.values(Currency).every((value) => typeof value === "object"),
+			).toBe(true);
+		});
+
+		test("CurrencyCode is a literal union", () => {
+			const code: CurrencyCode = "KWD";
+			expect(Currency[code].decimalPlaces).toBe(3);
+		});
+
+		test("works with Money", () => {
+			const money = Money.fromNumber(Currency.KWD, 1.234);
+			expect(money.toMinor()).toBe(1234);
+			expect(money.toDecimalString()).toBe("1.234");
+		});
+	});
+
+	describe("fromCode", () => {
+		test("returns the built-in definition", () => {
+			expect(Currency.fromCode("KWD")).toBe(Currency.KWD);
+			expect(Currency.fromCode("USDH")).toBe(Currency.USDH);
+		});
+
+		test("is case-insensitive", () => {
+			expect(Currency.fromCode("eur")).toBe(Currency.EUR);
+		});
+
+		test("returns undefined for unknown codes", () => {
+			expect(Currency.fromCode("ABC")).toBeUndefined();
+			expect(Currency.fromCode("toString")).toBeUndefined();
+		});
+	});
+
+	describe("fromNumeric", () => {
+		test("returns the currency for a numeric code", () => {
+			expect(Currency.fromNumeric(414)).toBe(Currency.KWD);
+			expect(Currency.fromNumeric(978)).toBe(Currency.EUR);
+			expect(Currency.fromNumeric(8)).toBe(Currency.ALL);
+		});
+
+		test("prefers active currencies over withdrawn ones", () => {
+			expect(Currency.fromNumeric(532)).toBe(Currency.XCG);
+		});
+
+		test("finds withdrawn currencies", () => {
+			expect(Currency.fromNumeric(276)).toBe(Currency.DEM);
+		});
+
+		test("returns undefined for unknown numeric codes", () => {
+			expect(Currency.fromNumeric(1)).toBeUndefined();
+		});
+	});
+});
@@ -73,3 +73,50 @@ test("zero decimal places custom currency", () => {
 	expect(m.toNumber()).toBe(42);
 	expect(m.toMinor()).toBe(42);
 });
+
+test("defineCurrency accepts optional metadata", () => {
+	const token = defineCurrency("USDX", 6, {
+		name: "Example Dollar Token",
+		symbol: "USDX",
+		narrowSymbol: "$x",
+		symbolPosition: "after",
+		pluralNames: { one: "token dollar", other: "token dollars" },
+		cashIncrement: 0.05,
+	});
+	expect(token.code).toBe("USDX");
+	expect(token.decimalPlaces).toBe(6);
+	expect(token.narrowSymbol).toBe("$x");
+	expect(token.pluralNames?.other).toBe("token dollars");
+	expect(Object.isFrozen(token)).toBe(true);
+});
+
+test("defineCurrency throws on invalid cash increment", () => {
+	expect(() => defineCurrency("XAU", 4, { cashIncrement: 0 })).toThrow(
+		"Cash increment must be a finite positive number",
+	);
+});
+
+test("built-in currencies carry symbols and plural names", () => {
+	expect(Currency.USD.symbol).toBe("US$");
+	expect(Currency.USD.narrowSymbol).toBe("$");
+	expect(Currency.EUR.pluralNames).toEqual({ one: "euro", other: "euros" });
+	expect(Currency.SEK.symbolPosition).toBe("after");
+	expect(Currency.THB.narrowSymbol).toBe("฿");
+	expect(Currency.KWD.pluralNames?.other).toBe("Kuwaiti dinars");
+	expect(Currency.CHF.cashIncrement).toBe(0.05);
+});
+
+test("formatting a custom currency uses its own symbol and names", () => {
+	const token = defineCurrency("USDX", 2, {
+		symbol: "USDX",
+		narrowSymbol: "$x",
+		pluralNames: { one: "token dollar", other: "token dollars" },
+	});
+	const m = Money.fromMinor(token, 250);
+	expect(m.format("en-US", { currencyDisplay: "narrowSymbol" })).toBe(
+		"$x\u00a02.50",
+	);
+	expect(m.format("en-US", { currencyDisplay: "name" })).toBe(
+		"token dollars\u00a02.50",
+	);
+});
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { daysBetween, yearFraction } from "../src";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("daysBetween", () => {
+	test("counts calendar days", () => {
+		expect(daysBetween(d("2024-01-01"), d("2024-03-01"))).toBe(60);
+		expect(daysBetween(d("2023-01-01"), d("2023-03-01"))).toBe(59);
+		expect(daysBetween(d("2024-03-01"), d("2024-01-01"))).toBe(-60);
+	});
+
+	test("ignores the time of day", () => {
+		expect(
+			daysBetween(
+				new Date("2024-01-01T23:59:00Z"),
+				new Date("2024-01-02T00:01:00Z"),
+			),
+		).toBe(1);
+	});
+});
+
+describe("yearFraction", () => {
+	test("30/360 treats every month as 30 days", () => {
+		expect(
+			yearFraction(d("2024-01-31"), d("2024-02-29"), "30/360").toString(),
+		).toBe("29/360");
+		expect(
+			yearFraction(d("2024-01-30"), d("2024-03-31"), "30/360").toString(),
+		).toBe("1/6");
+		expect(
+			yearFraction(d("2023-06-15"), d("2024-06-15"), "30/360").toString(),
+		).toBe("1");
+	});
+
+	test("ACT/365 divides actual days by 365", () => {
+		expect(
+			yearFraction(d("2024-01-01"), d("2025-01-01"), "ACT/365").toString(),
+		).toBe("366/365");
+		expect(
+			yearFraction(d("2023-01-01"), d("2023-02-01"), "ACT/365").toString(),
+		).toBe("31/365");
+	});
+
+	test("ACT/ACT splits periods across calendar years", () => {
+		expect(
+			yearFraction(d("2024-01-01"), d("2025-01-01"), "ACT/ACT").toString(),
+		).toBe("1");
+		// 2023-12-01..2024-01-01 = 31/365, then 2024-01-01..2024-02-01 = 31/366
+		expect(
+			yearFraction(d("2023-12-01"), d("2024-02-01"), "ACT/ACT").equals([
+				31n * 366n + 31n * 365n,
+				365n * 366n,
+			]),
+		).toBe(true);
+	});
+
+	test("is negative when the end is before the start", () => {
+		expect(
+			yearFraction(d("2024-02-01"), d("2024-01-01"), "ACT/365").toString(),
+		).toBe("-31/365");
+	});
+
+	test("rejects invalid dates", () => {
+		expect(() =>
+			yearFraction(new Date("nope"), d("2024-01-01"), "ACT/365"),
+		).toThrow("Invalid date");
+	});
+});
@@ -0,0 +1,369 @@
+import { describe, expect, test } from "bun:test";
+import {
+	applyDiscounts,
+	Currency,
+	type DiscountResult,
+	type DiscountRule,
+	Money,
+} from "../src";
+
+const prices = (result: DiscountResult) =>
+	result.lines.map((line) => line.price.toNumber());
+
+function expectConsistent(result: DiscountResult) {
+	const lineDiscounts = Money.sum(result.lines.map((line) => line.discount));
+	expect(lineDiscounts.equals(result.discount)).toBe(true);
+	expect(result.subtotal.subtract(result.discount).equals(result.total)).toBe(
+		true,
+	);
+	for (const line of result.lines) {
+		expect(line.price.isNegative()).toBe(false);
+		expect(line.original.subtract(line.discount).equals(line.price)).toBe(true);
+	}
+}
+
+describe("applyDiscounts", () => {
+	describe("percent", () => {
+		test("takes a percentage off and allocates it by line price", () => {
+			const result = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 60),
+					Money.fromNumber(Currency.USD, 30),
+					Money.fromNumber(Currency.USD, 10),
+				],
+				[{ type: "percent", percent: 10 }],
+			);
+			expect(result.discount.toNumber()).toBe(10);
+			expect(prices(result)).toEqual([54, 27, 9]);
+			expectConsistent(result);
+		});
+
+		test("allocates rounding residue so line discounts sum exactly", () => {
+			const result = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.USD, 1),
+				],
+				[{ type: "percent", percent: 10 }],
+			);
+			// 0.30 split three ways
+			expect(result.lines.map((line) => line.discount.toMinor())).toEqual([
+				10, 10, 10,
+			]);
+			const uneven = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 0.1),
+					Money.fromNumber(Currency.USD, 0.1),
+					Money.fromNumber(Currency.USD, 0.1),
+				],
+				[{ type: "percent", percent: 10 }],
+			);
+			expect(uneven.lines.map((line) => line.discount.toMinor())).toEqual([
+				1, 1, 1,
+			]);
+			expectConsistent(uneven);
+		});
+
+		test("respects a cap", () => {
+			const result = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 300),
+					Money.fromNumber(Currency.USD, 100),
+				],
+				[
+					{
+						type: "percent",
+						percent: 20,
+						cap: Money.fromNumber(Currency.USD, 50),
+					},
+				],
+			);
+			expect(result.discount.toNumber()).toBe(50);
+			expect(prices(result)).toEqual([262.5, 87.5]);
+		});
+
+		test("rejects percentages outside 0-100", () => {
+			expect(() =>
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 1)],
+					[{ type: "percent", percent: 101 }],
+				),
+			).toThrow("Discount percent must be between 0 and 100");
+			expect(() =>
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 1)],
+					[{ type: "percent", percent: -5 }],
+				),
+			).toThrow();
+		});
+	});
+
+	describe("fixed", () => {
+		test("takes a fixed amount off the order", () => {
+			const result = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 30),
+					Money.fromNumber(Currency.USD, 10),
+				],
+				[{ type: "fixed", amount: Money.fromNumber(Currency.USD, 10) }],
+			);
+			expect(prices(result)).toEqual([22.5, 7.5]);
+		});
+
+		test("never takes the order below zero", () => {
+			const result = applyDiscounts(
+				[Money.fromNumber(Currency.USD, 3), Money.fromNumber(Currency.USD, 2)],
+				[{ type: "fixed", amount: Money.fromNumber(Currency.USD, 20) }],
+			);
+			expect(result.total.isZero()).toBe(true);
+			expect(result.discount.toNumber()).toBe(5);
+			expectConsistent(result);
+		});
+
+		test("rejects negative amounts and other currencies", () => {
+			expect(() =>
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 3)],
+					[{ type: "fixed", amount: Money.fromNumber(Currency.USD, -1) }],
+				),
+			).toThrow("Fixed discount must not be negative");
+			expect(() =>
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 3)],
+					[{ type: "fixed", amount: Money.fromNumber(Currency.EUR, 1) }],
+				),
+			).toThrow("currency mismatch");
+		});
+	});
+
+	describe("buyXGetY", () => {
+		test("makes the cheapest item of each group free", () => {
+			const result = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 10),
+					Money.fromNumber(Currency.USD, 25),
+					Money.fromNumber(Currency.USD, 15),
+					Money.fromNumber(Currency.USD, 20),
+					Money.fromNumber(Currency.USD, 5),
+				],
+				[{ type: "buyXGetY", buy: 2, get: 1 }],
+			);
+			// Sorted: 25, 20, 15 | 10, 5 -> only one full group, 15 is free
+			expect(prices(result)).toEqual([10, 25, 0, 20, 5]);
+			expect(result.discount.toNumber()).toBe(15);
+		});
+
+		test("supports partial discounts and several groups", () => {
+			const result = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 10),
+					Money.fromNumber(Currency.USD, 10),
+					Money.fromNumber(Currency.USD, 8),
+					Money.fromNumber(Currency.USD, 8),
+				],
+				[{ type: "buyXGetY", buy: 1, get: 1, percent: 50 }],
+			);
+			expect(prices(result)).toEqual([10, 5, 8, 4]);
+		});
+
+		test("validates quantities", () => {
+			expect(() =>
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 1)],
+					[{ type: "buyXGetY", buy: 0, get: 1 }],
+				),
+			).toThrow("Buy X get Y quantities must be positive integers");
+			expect(() =>
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 1)],
+					[{ type: "buyXGetY", buy: 1, get: 1.5 }],
+				),
+			).toThrow();
+		});
+	});
+
+	describe("tiered", () => {
+		const tiers: DiscountRule = {
+			type: "tiered",
+			tiers: [
+				{ threshold: Money.fromNumber(Currency.USD, 100), percent: 10 },
+				{ threshold: Money.fromNumber(Currency.USD, 50), percent: 5 },
+				{ threshold: Money.fromNumber(Currency.USD, 200), percent: 15 },
+			],
+		};
+
+		test("applies the highest tier reached", () => {
+			expect(
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 40)],
+					[tiers],
+				).discount.isZero(),
+			).toBe(true);
+			expect(
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 50)],
+					[tiers],
+				).discount.toNumber(),
+			).toBe(2.5);
+			expect(
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 150)],
+					[tiers],
+				).discount.toNumber(),
+			).toBe(15);
+			expect(
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 250)],
+					[tiers],
+				).discount.toNumber(),
+			).toBe(37.5);
+		});
+
+		test("respects a cap", () => {
+			const capped: DiscountRule = {
+				...tiers,
+				cap: Money.fromNumber(Currency.USD, 20),
+			};
+			expect(
+				applyDiscounts(
+					[Money.fromNumber(Currency.USD, 250)],
+					[capped],
+				).discount.toNumber(),
+			).toBe(20);
+		});
+	});
+
+	describe("stacking", () => {
+		const rules: DiscountRule[] = [
+			{ type: "percent", percent: 10 },
+			{ type: "fixed", amount: Money.fromNumber(Currency.USD, 5) },
+		];
+
+		test("sequential applies each rule to the running total", () => {
+			const result = applyDiscounts(
+				[Money.fromNumber(Currency.USD, 100)],
+				[
+					{ type: "fixed", amount: Money.fromNumber(Currency.USD, 10) },
+					{ type: "percent", percent: 10 },
+				],
+			);
+			// 100 - 10 = 90; 10% of 90 = 9
+			expect(result.total.toNumber()).toBe(81);
+			expect(result.applied.map((entry) => entry.amount.toNumber())).toEqual([
+				10, 9,
+			]);
+		});
+
+		test("additive computes every rule against the original lines", () => {
+			const result = applyDiscounts(
+				[Money.fromNumber(Currency.USD, 100)],
+				[
+					{ type: "fixed", amount: Money.fromNumber(Currency.USD, 10) },
+					{ type: "percent", percent: 10 },
+				],
+				{ stacking: "additive" },
+			);
+			expect(result.total.toNumber()).toBe(80);
+		});
+
+		test("best applies only the largest discount", () => {
+			const small = applyDiscounts(
+				[Money.fromNumber(Currency.USD, 30)],
+				rules,
+				{ stacking: "best" },
+			);
+			expect(small.discount.toNumber()).toBe(5);
+			expect(small.applied).toHaveLength(1);
+			expect(small.applied[0]?.rule.type).toBe("fixed");
+
+			const large = applyDiscounts(
+				[Money.fromNumber(Currency.USD, 100)],
+				rules,
+				{ stacking: "best" },
+			);
+			expect(large.discount.toNumber()).toBe(10);
+			expect(large.applied[0]?.rule.type).toBe("percent");
+		});
+
+		test("minimumTotal limits stacked discounts", () => {
+			const result = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 20),
+					Money.fromNumber(Currency.USD, 10),
+				],
+				[
+					{ type: "percent", percent: 50 },
+					{ type: "fixed", amount: Money.fromNumber(Currency.USD, 10) },
+				],
+				{ minimumTotal: Money.fromNumber(Currency.USD, 10) },
+			);
+			expect(result.total.toNumber()).toBe(10);
+			expect(result.applied.map((entry) => entry.amount.toNumber())).toEqual([
+				15, 5,
+			]);
+			expectConsistent(result);
+		});
+
+		test("additive stacking never takes a line below zero", () => {
+			const result = applyDiscounts(
+				[Money.fromNumber(Currency.USD, 10)],
+				[
+					{ type: "percent", percent: 80 },
+					{ type: "percent", percent: 80 },
+				],
+				{ stacking: "additive" },
+			);
+			expect(result.total.isZero()).toBe(true);
+			expectConsistent(result);
+		});
+	});
+
+	describe("refunds", () => {
+		test("line prices give the refundable amount per line", () => {
+			const result = applyDiscounts(
+				[
+					Money.fromNumber(Currency.USD, 19.99),
+					Money.fromNumber(Currency.USD, 5.49),
+					Money.fromNumber(Currency.USD, 3.33),
+				],
+				[
+					{ type: "buyXGetY", buy: 2, get: 1, percent: 50 },
+					{
+						type: "percent",
+						percent: 15,
+						cap: Money.fromNumber(Currency.USD, 10),
+					},
+					{ type: "fixed", amount: Money.fromNumber(Currency.USD, 1) },
+				],
+			);
+			expectConsistent(result);
+			const refund = result.lines[1]?.price;
+			expect(refund?.toMinor()).toBe(
+				(result.lines[1]?.original.toMinor() ?? 0) -
+					(result.lines[1]?.discount.toMinor() ?? 0),
+			);
+		});
+	});
+
+	describe("validation", () => {
+		test("requires at least one non-negative line", () => {
+			expect(() => applyDiscounts([], [])).toThrow(
+				"Discounts require at least one line",
+			);
+			expect(() =>
+				applyDiscounts([Money.fromNumber(Currency.USD, -1)], []),
+			).toThrow("Discount lines must not be negative");
+		});
+
+		test("returns the lines unchanged without rules", () => {
+			const result = applyDiscounts(
+				[Money.fromNumber(Currency.USD, 1), Money.fromNumber(Currency.USD, 2)],
+				[],
+			);
+			expect(result.discount.isZero()).toBe(true);
+			expect(prices(result)).toEqual([1, 2]);
+			expect(result.applied).toEqual([]);
+		});
+	});
+});
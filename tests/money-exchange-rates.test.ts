@@ -0,0 +1,203 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, ExchangeRates, Money, Rate } from "../src";
+
+describe("ExchangeRates", () => {
+	const rates = ExchangeRates.fromJSON({
+		base: "USD",
+		rates: { EUR: 0.92, JPY: 157.9 },
+	});
+
+	describe("getRate", () => {
+		test("returns a direct pair", () => {
+			const rate = rates.getRate("USD", "EUR");
+			expect(rate.from).toBe("USD");
+			expect(rate.to).toBe("EUR");
+			expect(rate.rate.toString()).toBe("0.92");
+			expect(rate.derivation).toBe("direct");
+		});
+
+		test("derives the inverse of a stored pair", () => {
+			const rate = rates.getRate(Currency.EUR, Currency.USD);
+			expect(rate.derivation).toBe("inverse");
+			expect(rate.rate.equals([25n, 23n])).toBe(true);
+		});
+
+		test("triangulates through the base currency", () => {
+			const rate = rates.getRate("EUR", "JPY");
+			expect(rate.derivation).toBe("cross");
+			expect(rate.via).toBe("USD");
+			expect(rate.rate.equals([15790n, 92n])).toBe(true);
+		});
+
+		test("returns an identity rate for the same currency", () => {
+			const rate = rates.getRate("EUR", "EUR");
+			expect(rate.rate.toString()).toBe("1");
+			expect(rate.derivation).toBe("identity");
+		});
+
+		test("prefers a direct pair over a cross rate", () => {
+			const table = ExchangeRates.fromJSON({
+				base: "USD",
+				rates: { EUR: 0.92, GBP: 0.79 },
+			}).set("EUR", "GBP", 0.85);
+			expect(table.getRate("EUR", "GBP").derivation).toBe("direct");
+			expect(table.getRate("GBP", "EUR").derivation).toBe("inverse");
+		});
+
+		test("throws for an unknown pair", () => {
+			expect(() => rates.getRate("EUR", "GBP")).toThrow(
+				"No exchange rate available for EUR/GBP",
+			);
+			expect(rates.has("EUR", "GBP")).toBe(false);
+			expect(rates.has("EUR", "JPY")).toBe(true);
+		});
+
+		test("does not triangulate without a base", () => {
+			const table = new ExchangeRates()
+				.set("USD", "EUR", 0.92)
+				.set("USD", "JPY", 157.9);
+			expect(() => table.getRate("EUR", "JPY")).toThrow();
+		});
+	});
+
+	describe("set", () => {
+		test("rejects non-positive and non-finite rates", () => {
+			const table = new ExchangeRates();
+			expect(() => table.set("USD", "EUR", 0)).toThrow(
+				"Exchange rate must be a finite positive number",
+			);
+			expect(() => table.set("USD", "EUR", -1)).toThrow();
+			expect(() => table.set("USD", "EUR", Number.NaN)).toThrow();
+			expect(() => table.set("USD", "EUR", "abc")).toThrow();
+		});
+
+		test("replaces an existing rate", () => {
+			const table = new ExchangeRates().set("USD", "EUR", 0.9);
+			table.set(Currency.USD, Currency.EUR, 0.92);
+			expect(table.getRate("USD", "EUR").rate.toNumber()).toBe(0.92);
+		});
+	});
+
+	describe("JSON", () => {
+		test("round-trips the base pairs as exact strings", () => {
+			const json = { base: "USD", rates: { EUR: "0.92", JPY: "157.9" } };
+			expect(ExchangeRates.fromJSON(json).toJSON()).toEqual(json);
+			expect(
+				ExchangeRates.fromJSON({ base: "USD", rates: { EUR: 0.92 } }).toJSON(),
+			).toEqual({ base: "USD", rates: { EUR: "0.92" } });
+		});
+
+		test("keeps string rates beyond float precision", () => {
+			const table = ExchangeRates.fromJSON({
+				base: "USD",
+				rates: { EUR: "1.38925039713376021934" },
+			});
+			expect(table.getRate("USD", "EUR").rate.toString()).toBe(
+				"1.38925039713376021934",
+			);
+		});
+
+		test("toJSON requires a base", () => {
+			expect(() => new ExchangeRates().toJSON()).toThrow(
+				"Cannot serialize exchange rates without a base",
+			);
+		});
+	});
+
+	describe("fromProvider", () => {
+		test("loads rates from an async provider", async () => {
+			const table = await ExchangeRates.fromProvider(async () => ({
+				base: "EUR",
+				rates: { USD: 1.08 },
+			}));
+			expect(table.base).toBe("EUR");
+			expect(table.getRate("EUR", "USD").rate.toString()).toBe("1.08");
+		});
+
+		test("accepts a synchronous provider", async () => {
+			const table = await ExchangeRates.fromProvider(() => ({
+				base: "USD",
+				rates: { GBP: 0.79 },
+			}));
+			expect(table.getRate("USD", "GBP").rate.toString()).toBe("0.79");
+		});
+
+		test("propagates provider failures", async () => {
+			await expect(
+				ExchangeRates.fromProvider(async () => {
+					throw new Error("feed unavailable");
+				}),
+			).rejects.toThrow("feed unavailable");
+		});
+	});
+});
+
+describe("Money#convertTo", () => {
+	const rates = ExchangeRates.fromJSON({
+		base: "USD",
+		rates: { EUR: 0.92, JPY: 157.9 },
+	});
+
+	test("converts with a direct rate and records it", () => {
+		const { money, rate } = Money.fromNumber(Currency.USD, 100).convertTo(
+			Currency.EUR,
+			rates,
+		);
+		expect(money.toNumber()).toBe(92);
+		expect(money.currency).toBe(Currency.EUR);
+		expect(rate.derivation).toBe("direct");
+	});
+
+	test("uses the inverse rate in the opposite direction", () => {
+		const { money } = Money.fromNumber(Currency.EUR, 92).convertTo(
+			Currency.USD,
+			rates,
+		);
+		expect(money.toNumber()).toBe(100);
+	});
+
+	test("converts through a cross rate", () => {
+		const { money, rate } = Money.convertTo(
+			Money.fromNumber(Currency.EUR, 100),
+			Currency.JPY,
+			rates,
+		);
+		expect(money.toMinor()).toBe(17163);
+		expect(rate.via).toBe("USD");
+	});
+
+	test("honours the rounding option", () => {
+		const { money } = Money.fromNumber(Currency.EUR, 100).convertTo(
+			Currency.JPY,
+			rates,
+			{ rounding: "ceil" },
+		);
+		expect(money.toMinor()).toBe(17164);
+	});
+
+	test("applies a cross rate exactly rather than via a float product", () => {
+		const table = ExchangeRates.fromJSON({
+			base: "USD",
+			rates: { EUR: "3", GBP: "1" },
+		});
+		const { money, rate } = Money.fromNumber(Currency.EUR, 1).convertTo(
+			Currency.GBP,
+			table,
+		);
+		expect(rate.rate.equals(Rate.fraction(1n, 3n))).toBe(true);
+		expect(money.toMinor()).toBe(33);
+	});
+
+	test("returns the same amount for the same currency", () => {
+		const usd = Money.fromNumber(Currency.USD, 12.34);
+		const { money, rate } = usd.convertTo(Currency.USD, rates);
+		expect(money.equals(usd)).toBe(true);
+		expect(rate.derivation).toBe("identity");
+	});
+
+	test("throws when no rate is available", () => {
+		expect(() =>
+			Money.fromNumber(Currency.GBP, 1).convertTo(Currency.EUR, rates),
+		).toThrow("No exchange rate available for GBP/EUR");
+	});
+});
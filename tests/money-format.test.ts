@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, defineCurrency, Money } from "../src";
+
+const NBSP = "\u00a0";
+
+describe("Money#format", () => {
+	describe("locales", () => {
+		test("formats USD in en-US", () => {
+			const money = Money.fromMinor(Currency.USD, 123456);
+			expect(money.format("en-US")).toBe("$1,234.56");
+		});
+
+		test("formats EUR in de-DE", () => {
+			const money = Money.fromMinor(Currency.EUR, 123456);
+			expect(money.format("de-DE")).toBe(`1.234,56${NBSP}€`);
+		});
+
+		test("uses locale grouping rules (en-IN)", () => {
+			const money = Money.fromMinor(Currency.INR, 1234567890);
+			expect(money.format("en-IN")).toBe("₹1,23,45,678.90");
+		});
+
+		test("formats zero decimal currencies without fraction", () => {
+			const money = Money.fromMinor(Currency.JPY, 123456);
+			expect(money.format("en-US")).toBe("¥123,456");
+		});
+	});
+
+	describe("precision", () => {
+		test("always shows currency.decimalPlaces digits", () => {
+			const money = Money.fromMinor(Currency.USD, 1000);
+			expect(money.format("en-US")).toBe("$10.00");
+		});
+
+		test("keeps every BTC digit", () => {
+			const money = Money.fromString(Currency.BTC, "12345678.12345678");
+			expect(money.format("en-US")).toBe(`₿${NBSP}12,345,678.12345678`);
+		});
+
+		test("keeps digits beyond float precision", () => {
+			const money = Money.fromMinor(Currency.USD, 9007199254740991);
+			expect(money.format("en-US")).toBe("$90,071,992,547,409.91");
+		});
+
+		test("formats small negative values", () => {
+			const money = Money.fromMinor(Currency.USD, -5);
+			expect(money.format("en-US")).toBe("-$0.05");
+		});
+	});
+
+	describe("options", () => {
+		test("currencyDisplay code", () => {
+			const money = Money.fromMinor(Currency.USD, 123456);
+			expect(money.format("en-US", { currencyDisplay: "code" })).toBe(
+				`USD${NBSP}1,234.56`,
+			);
+		});
+
+		test("currencyDisplay name", () => {
+			const money = Money.fromMinor(Currency.USD, 250);
+			expect(money.format("en-US", { currencyDisplay: "name" })).toBe(
+				"2.50 US dollars",
+			);
+		});
+
+		test("accounting negatives", () => {
+			const money = Money.fromMinor(Currency.USD, -123456);
+			expect(money.format("en-US", { currencySign: "accounting" })).toBe(
+				"($1,234.56)",
+			);
+		});
+
+		test("signDisplay always and exceptZero", () => {
+			expect(
+				Money.fromMinor(Currency.USD, 500).format("en-US", {
+					signDisplay: "always",
+				}),
+			).toBe("+$5.00");
+			expect(
+				Money.fromMinor(Currency.USD, 0).format("en-US", {
+					signDisplay: "exceptZero",
+				}),
+			).toBe("$0.00");
+		});
+
+		test("compact notation", () => {
+			const money = Money.fromMinor(Currency.USD, 123456789);
+			expect(money.format("en-US", { notation: "compact" })).toBe("$1.2M");
+		});
+
+		test("useGrouping false", () => {
+			const money = Money.fromMinor(Currency.USD, 123456);
+			expect(money.format("en-US", { useGrouping: false })).toBe("$1234.56");
+		});
+	});
+
+	describe("non-ISO currencies", () => {
+		test("formats USDH with 3 decimals and its code", () => {
+			const money = Money.fromMinor(Currency.USDH, 123456);
+			expect(money.format("en-US")).toBe(`USDH${NBSP}123.456`);
+			expect(money.format("de-DE")).toBe(`123,456${NBSP}USDH`);
+		});
+
+		test("formats custom currencies with their own decimal places", () => {
+			const gold = defineCurrency("XAU", 4);
+			const money = Money.fromMinor(gold, 123456);
+			expect(money.format("en-US")).toBe(`XAU${NBSP}12.3456`);
+		});
+
+		test("uses the definition's symbol and names outside the ISO table", () => {
+			const money = Money.fromString(Currency.BTC, "0.5");
+			expect(money.format("en-US")).toBe(`₿${NBSP}0.50000000`);
+			expect(money.format("en-US", { currencyDisplay: "code" })).toBe(
+				`BTC${NBSP}0.50000000`,
+			);
+			expect(money.format("en-US", { currencyDisplay: "name" })).toBe(
+				`bitcoins${NBSP}0.50000000`,
+			);
+		});
+
+		test("honours symbolPosition", () => {
+			const after = defineCurrency("USDX", 2, {
+				symbol: "USDX",
+				symbolPosition: "after",
+			});
+			expect(Money.fromMinor(after, 500).format("en-US")).toBe(
+				`5.00${NBSP}USDX`,
+			);
+			expect(Money.fromMinor(after, -500).format("en-US")).toBe(
+				`-5.00${NBSP}USDX`,
+			);
+			expect(
+				Money.fromMinor(after, -500).format("en-US", {
+					currencySign: "accounting",
+				}),
+			).toBe(`(5.00${NBSP}USDX)`);
+			expect(Money.fromMinor(Currency.BTC, 1).format("de-DE")).toBe(
+				`₿${NBSP}0,00000001`,
+			);
+		});
+
+		test("falls back to the code for name display", () => {
+			const money = Money.fromMinor(Currency.USDH, 1000);
+			expect(money.format("en-US", { currencyDisplay: "name" })).toBe(
+				`USDH${NBSP}1.000`,
+			);
+		});
+	});
+});
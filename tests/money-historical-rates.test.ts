@@ -0,0 +1,434 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	Currency,
+	type HistoricalRateEntryJSON,
+	HistoricalRates,
+	Money,
+} from "../src";
+
+const history = [
+	{ from: "USD", to: "EUR", rate: "0.90", effectiveFrom: "2024-01-01" },
+	{ from: "USD", to: "EUR", rate: "0.92", effectiveFrom: "2024-02-01" },
+	{ from: "USD", to: "JPY", rate: "150", effectiveFrom: "2024-01-01" },
+];
+
+describe("HistoricalRates", () => {
+	describe("getRate", () => {
+		const rates = HistoricalRates.fromJSON(history, { base: "USD" });
+
+		test("selects the rate effective at the date", () => {
+			expect(rates.getRate("USD", "EUR", "2024-01-15").rate.toString()).toBe(
+				"0.9",
+			);
+			expect(rates.getRate("USD", "EUR", "2024-02-01").rate.toString()).toBe(
+				"0.92",
+			);
+			expect(
+				rates.getRate("USD", "EUR", new Date("2025-06-30")).rate.toString(),
+			).toBe("0.92");
+		});
+
+		test("derives inverse and cross rates at the date", () => {
+			const inverse = rates.getRate("EUR", "USD", "2024-01-15");
+			expect(inverse.derivation).toBe("inverse");
+			expect(inverse.rate.toString()).toBe("10/9");
+
+			const cross = rates.getRate("EUR", "JPY", "2024-01-15");
+			expect(cross.derivation).toBe("cross");
+			expect(cross.rate.toString()).toBe("500/3");
+		});
+
+		test("prefers the more recent of a direct and an inverse quote", () => {
+			const quoted = HistoricalRates.fromJSON([
+				{ from: "USD", to: "EUR", rate: "0.9", effectiveFrom: "2024-01-01" },
+				{ from: "EUR", to: "USD", rate: "1.2", effectiveFrom: "2024-06-01" },
+			]);
+			expect(quoted.getRate("USD", "EUR", "2024-07-01").rate.toString()).toBe(
+				"5/6",
+			);
+			expect(quoted.getRate("USD", "EUR", "2024-03-01").rate.toString()).toBe(
+				"0.9",
+			);
+			expect(
+				quoted.asOf("2024-07-01").getRate("USD", "EUR").rate.toString(),
+			).toBe("5/6");
+		});
+
+		test("throws before the first entry", () => {
+			expect(() => rates.getRate("USD", "EUR", "2023-12-31")).toThrow(
+				"No exchange rate available for USD/EUR at 2023-12-31T00:00:00.000Z",
+			);
+		});
+
+		test("rejects invalid dates", () => {
+			expect(() => rates.getRate("USD", "EUR", "not a date")).toThrow(
+				'Date is not a valid date: "not a date"',
+			);
+		});
+	});
+
+	describe("gap policies", () => {
+		const gapped = [
+			{
+				from: "USD",
+				to: "EUR",
+				rate: "0.90",
+				effectiveFrom: "2024-01-01",
+				effectiveTo: "2024-01-11",
+			},
+			{ from: "USD", to: "EUR", rate: "1.00", effectiveFrom: "2024-01-21" },
+		];
+
+		test("previous uses the last rate before the gap", () => {
+			const rates = HistoricalRates.fromJSON(gapped, { gapPolicy: "previous" });
+			expect(rates.getRate("USD", "EUR", "2024-01-15").rate.toString()).toBe(
+				"0.9",
+			);
+		});
+
+		test("previous is the default", () => {
+			const rates = HistoricalRates.fromJSON(gapped);
+			expect(rates.getRate("USD", "EUR", "2024-01-15").rate.toString()).toBe(
+				"0.9",
+			);
+		});
+
+		test("error rejects dates inside the gap", () => {
+			const rates = HistoricalRates.fromJSON(gapped, { gapPolicy: "error" });
+			expect(() => rates.getRate("USD", "EUR", "2024-01-15")).toThrow(
+				"No exchange rate available for USD/EUR",
+			);
+			expect(rates.getRate("USD", "EUR", "2024-01-10").rate.toString()).toBe(
+				"0.9",
+			);
+		});
+
+		test("interpolate blends the rates either side of the gap", () => {
+			const rates = HistoricalRates.fromJSON(gapped, {
+				gapPolicy: "interpolate",
+			});
+			// Gap runs from Jan 11 to Jan 21; Jan 16 is halfway
+			expect(rates.getRate("USD", "EUR", "2024-01-16").rate.toString()).toBe(
+				"0.95",
+			);
+			expect(rates.getRate("USD", "EUR", "2024-01-11").rate.toString()).toBe(
+				"0.9",
+			);
+		});
+
+		test("interpolate cannot extend past the last entry", () => {
+			const rates = HistoricalRates.fromJSON(
+				[
+					{
+						from: "USD",
+						to: "EUR",
+						rate: "0.90",
+						effectiveFrom: "2024-01-01",
+						effectiveTo: "2024-02-01",
+					},
+				],
+				{ gapPolicy: "interpolate" },
+			);
+			expect(() => rates.getRate("USD", "EUR", "2024-03-01")).toThrow();
+		});
+	});
+
+	describe("add", () => {
+		test("accepts entries in any order", () => {
+			const rates = new HistoricalRates()
+				.add({
+					from: Currency.USD,
+					to: Currency.EUR,
+					rate: 0.92,
+					effectiveFrom: new Date("2024-02-01"),
+				})
+				.add({
+					from: Currency.USD,
+					to: Currency.EUR,
+					rate: 0.9,
+					effectiveFrom: new Date("2024-01-01"),
+				});
+			expect(rates.getRate("USD", "EUR", "2024-01-20").rate.toNumber()).toBe(
+				0.9,
+			);
+		});
+
+		test("rejects duplicate start dates for a pair", () => {
+			const rates = new HistoricalRates().add({
+				from: "USD",
+				to: "EUR",
+				rate: 0.9,
+				effectiveFrom: "2024-01-01",
+			});
+			expect(() =>
+				rates.add({
+					from: "USD",
+					to: "EUR",
+					rate: 0.91,
+					effectiveFrom: "2024-01-01",
+				}),
+			).toThrow(
+				"Duplicate USD/EUR rate effective from 2024-01-01T00:00:00.000Z",
+			);
+		});
+
+		test("rejects ranges that overlap an earlier entry", () => {
+			const rates = new HistoricalRates().add({
+				from: "USD",
+				to: "EUR",
+				rate: 0.9,
+				effectiveFrom: "2024-01-01",
+				effectiveTo: "2024-02-01",
+			});
+			expect(() =>
+				rates.add({
+					from: "USD",
+					to: "EUR",
+					rate: 0.91,
+					effectiveFrom: "2024-01-15",
+				}),
+			).toThrow(
+				"Overlapping USD/EUR rates effective from 2024-01-01T00:00:00.000Z and 2024-01-15T00:00:00.000Z",
+			);
+			expect(() =>
+				rates.add({
+					from: "USD",
+					to: "EUR",
+					rate: 0.89,
+					effectiveFrom: "2023-12-01",
+					effectiveTo: "2024-01-02",
+				}),
+			).toThrow("Overlapping USD/EUR rates");
+			rates.add({
+				from: "USD",
+				to: "EUR",
+				rate: 0.92,
+				effectiveFrom: "2024-02-01",
+			});
+			expect(() =>
+				HistoricalRates.fromJSON([
+					{
+						from: "USD",
+						to: "EUR",
+						rate: "0.9",
+						effectiveFrom: "2024-01-01",
+						effectiveTo: "2024-03-01",
+					},
+					{ from: "USD", to: "EUR", rate: "0.92", effectiveFrom: "2024-02-01" },
+				]),
+			).toThrow("Overlapping USD/EUR rates");
+		});
+
+		test("validates rates and date ranges", () => {
+			const rates = new HistoricalRates();
+			expect(() =>
+				rates.add({
+					from: "USD",
+					to: "EUR",
+					rate: 0,
+					effectiveFrom: "2024-01-01",
+				}),
+			).toThrow("Exchange rate must be a finite positive number");
+			expect(() =>
+				rates.add({
+					from: "USD",
+					to: "EUR",
+					rate: 1,
+					effectiveFrom: "2024-01-02",
+					effectiveTo: "2024-01-01",
+				}),
+			).toThrow("effectiveTo must be after effectiveFrom");
+			expect(() =>
+				rates.add({ from: "USD", to: "EUR", rate: 1, effectiveFrom: "soon" }),
+			).toThrow('effectiveFrom is not a valid date: "soon"');
+		});
+	});
+
+	describe("fromJSON", () => {
+		test("loads long histories in any order", () => {
+			const entries = [];
+			for (const code of ["EUR", "GBP", "JPY", "CHF", "CAD"]) {
+				for (let day = 3649; day >= 0; day--) {
+					entries.push({
+						from: "USD",
+						to: code,
+						rate: `1.${String(day).padStart(4, "0")}`,
+						effectiveFrom: new Date(Date.UTC(2015, 0, 1 + day)).toISOString(),
+					});
+				}
+			}
+			const rates = HistoricalRates.fromJSON(entries, { base: "USD" });
+			expect(rates.getRate("USD", "GBP", "2015-01-11").rate.toString()).toBe(
+				"1.001",
+			);
+			expect(rates.getRate("EUR", "JPY", "2030-01-01").derivation).toBe(
+				"cross",
+			);
+		});
+
+		test("rejects input that is not a list of entries", () => {
+			expect(() =>
+				HistoricalRates.fromJSON({} as unknown as HistoricalRateEntryJSON[]),
+			).toThrow("Rate history JSON must be an array of entries");
+			expect(() =>
+				HistoricalRates.fromJSON([
+					null,
+				] as unknown as HistoricalRateEntryJSON[]),
+			).toThrow("Rate history entry 0 must be an object");
+			expect(() =>
+				HistoricalRates.fromJSON([
+					{ from: "USD", to: "EUR", effectiveFrom: "2024-01-01" },
+				] as unknown as HistoricalRateEntryJSON[]),
+			).toThrow('Rate history entry 0 is missing "rate"');
+			expect(() =>
+				HistoricalRates.fromJSON([
+					{ from: "USD", to: "EUR", rate: {}, effectiveFrom: "2024-01-01" },
+				] as unknown as HistoricalRateEntryJSON[]),
+			).toThrow('Rate history entry 0 has an invalid "rate"');
+		});
+
+		test("rejects duplicate start dates for a pair", () => {
+			expect(() =>
+				HistoricalRates.fromJSON([
+					...history,
+					{ from: "USD", to: "EUR", rate: "0.91", effectiveFrom: "2024-01-01" },
+				]),
+			).toThrow(
+				"Duplicate USD/EUR rate effective from 2024-01-01T00:00:00.000Z",
+			);
+		});
+	});
+
+	describe("asOf", () => {
+		test("returns a snapshot usable with convertTo", () => {
+			const rates = HistoricalRates.fromJSON(history, { base: "USD" });
+			const { money } = Money.fromNumber(Currency.USD, 100).convertTo(
+				Currency.EUR,
+				rates.asOf("2024-01-15"),
+			);
+			expect(money.toNumber()).toBe(90);
+		});
+	});
+
+	describe("fromCSV", () => {
+		test("parses columns by header name", () => {
+			const rates = HistoricalRates.fromCSV(
+				[
+					"effectiveFrom,from,to,rate,effectiveTo",
+					"2024-01-01,USD,EUR,0.90,2024-01-11",
+					"",
+					"2024-01-21,USD,EUR,1.00,",
+				].join("\n"),
+				{ gapPolicy: "error" },
+			);
+			expect(rates.getRate("USD", "EUR", "2024-01-05").rate.toString()).toBe(
+				"0.9",
+			);
+			expect(() => rates.getRate("USD", "EUR", "2024-01-15")).toThrow();
+		});
+
+		test("accepts CRLF line endings and no effectiveTo column", () => {
+			const rates = HistoricalRates.fromCSV(
+				"from,to,rate,effectiveFrom\r\nUSD,EUR,0.92,2024-01-01\r\n",
+			);
+			expect(rates.getRate("USD", "EUR", "2024-05-01").rate.toString()).toBe(
+				"0.92",
+			);
+		});
+
+		test("reports missing columns and malformed lines", () => {
+			expect(() =>
+				HistoricalRates.fromCSV("from,to,effectiveFrom\nUSD,EUR,2024-01-01"),
+			).toThrow('Rate history CSV is missing the "rate" column');
+			expect(() =>
+				HistoricalRates.fromCSV(
+					"from,to,rate,effectiveFrom\nUSD,EUR,0.9,2024-01-01\nUSD,EUR",
+				),
+			).toThrow("Rate history CSV line 3 has 2 fields, expected 4");
+		});
+	});
+
+	describe("fromFile", () => {
+		let dir: string;
+
+		beforeAll(() => {
+			dir = mkdtempSync(join(tmpdir(), "money-rates-"));
+			writeFileSync(
+				join(dir, "rates.csv"),
+				"from,to,rate,effectiveFrom\nUSD,EUR,0.90,2024-01-01\nUSD,EUR,0.92,2024-02-01\n",
+			);
+			writeFileSync(join(dir, "rates.json"), JSON.stringify(history));
+			writeFileSync(join(dir, "rates.txt"), "");
+			writeFileSync(join(dir, "object.json"), JSON.stringify({ history }));
+		});
+
+		afterAll(() => {
+			rmSync(dir, { recursive: true, force: true });
+		});
+
+		test("loads a CSV file", async () => {
+			const rates = await HistoricalRates.fromFile(join(dir, "rates.csv"));
+			expect(rates.getRate("USD", "EUR", "2024-02-10").rate.toString()).toBe(
+				"0.92",
+			);
+		});
+
+		test("loads a JSON file", async () => {
+			const rates = await HistoricalRates.fromFile(join(dir, "rates.json"), {
+				base: "USD",
+			});
+			expect(rates.getRate("EUR", "JPY", "2024-02-10").derivation).toBe(
+				"cross",
+			);
+		});
+
+		test("rejects JSON that is not a list of entries", async () => {
+			await expect(
+				HistoricalRates.fromFile(join(dir, "object.json")),
+			).rejects.toThrow("Rate history JSON must be an array of entries");
+		});
+
+		test("rejects other file types", async () => {
+			await expect(
+				HistoricalRates.fromFile(join(dir, "rates.txt")),
+			).rejects.toThrow("Unsupported rate history file");
+		});
+	});
+});
+
+describe("Money#convertAt", () => {
+	const rates = HistoricalRates.fromJSON(history, { base: "USD" });
+
+	test("converts at the rate effective on the date", () => {
+		const usd = Money.fromNumber(Currency.USD, 100);
+		const january = usd.convertAt(Currency.EUR, rates, "2024-01-15");
+		const february = usd.convertAt(Currency.EUR, rates, "2024-02-15");
+		expect(january.money.toNumber()).toBe(90);
+		expect(february.money.toNumber()).toBe(92);
+		expect(february.rate.derivation).toBe("direct");
+	});
+
+	test("static form honours the rounding option", () => {
+		const { money } = Money.convertAt(
+			Money.fromNumber(Currency.EUR, 1),
+			Currency.JPY,
+			rates,
+			new Date("2024-01-15"),
+			{ rounding: "floor" },
+		);
+		expect(money.toMinor()).toBe(166);
+	});
+
+	test("throws when no rate is effective", () => {
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).convertAt(
+				Currency.EUR,
+				rates,
+				"2023-06-01",
+			),
+		).toThrow("No exchange rate available for USD/EUR");
+	});
+});
@@ -0,0 +1,184 @@
+import { describe, expect, test } from "bun:test";
+import { accrueInterest, aprToApy, apyToApr, Currency, Money } from "../src";
+
+describe("accrueInterest", () => {
+	describe("simple interest", () => {
+		test("accrues over a number of years", () => {
+			expect(
+				accrueInterest(Money.fromNumber(Currency.USD, 1000), 5, {
+					years: 1,
+				}).toNumber(),
+			).toBe(50);
+			expect(
+				accrueInterest(Money.fromNumber(Currency.USD, 1000), "4.5", {
+					years: "0.5",
+				}).toNumber(),
+			).toBe(22.5);
+			expect(
+				accrueInterest(Money.fromNumber(Currency.USD, 1000), 6, {
+					years: [1n, 12n],
+				}).toNumber(),
+			).toBe(5);
+		});
+
+		test("measures date ranges with the day count convention", () => {
+			const period = {
+				start: new Date("2024-01-01T00:00:00Z"),
+				end: new Date("2024-07-01T00:00:00Z"),
+			};
+			// 182 days
+			expect(
+				accrueInterest(
+					Money.fromNumber(Currency.USD, 1000),
+					5,
+					period,
+				).toNumber(),
+			).toBe(24.93);
+			expect(
+				accrueInterest(Money.fromNumber(Currency.USD, 1000), 5, period, {
+					dayCount: "30/360",
+				}).toNumber(),
+			).toBe(25);
+			expect(
+				accrueInterest(Money.fromNumber(Currency.USD, 1000), 5, period, {
+					dayCount: "ACT/ACT",
+				}).toNumber(),
+			).toBe(24.86);
+		});
+	});
+
+	describe("compound interest", () => {
+		test("compounds at the given frequency", () => {
+			const options = { compounding: "monthly" } as const;
+			expect(
+				accrueInterest(
+					Money.fromNumber(Currency.USD, 1000),
+					5,
+					{ years: 1 },
+					options,
+				).toNumber(),
+			).toBe(51.16);
+			expect(
+				accrueInterest(
+					Money.fromNumber(Currency.USD, 1000),
+					5,
+					{ years: 10 },
+					{
+						compounding: "daily",
+					},
+				).toNumber(),
+			).toBe(648.66);
+		});
+
+		test("applies simple interest for a partial period", () => {
+			// 1.12 * (1 + 0.12 * 0.5)
+			expect(
+				accrueInterest(
+					Money.fromNumber(Currency.USD, 1000),
+					12,
+					{ years: "1.5" },
+					{
+						compounding: "annual",
+					},
+				).toNumber(),
+			).toBe(187.2);
+		});
+
+		test("rounds once instead of every period", () => {
+			const principal = Money.fromNumber(Currency.USD, 0.5);
+			let stepped = principal;
+			for (let month = 0; month < 12; month++) {
+				stepped = stepped.incrementByPercent(1);
+			}
+			// Each 1% step of 0.50 rounds 0.005 up
+			expect(stepped.subtract(principal).toNumber()).toBe(0.12);
+			expect(
+				accrueInterest(
+					principal,
+					12,
+					{ years: 1 },
+					{
+						compounding: "monthly",
+					},
+				).toNumber(),
+			).toBe(0.06);
+		});
+
+		test("compounds daily over decades", () => {
+			expect(
+				accrueInterest(
+					Money.fromNumber(Currency.USD, 1000),
+					5,
+					{ years: 50 },
+					{ compounding: "daily" },
+				).toNumber(),
+			).toBe(11180.41);
+		});
+
+		test("respects the rounding mode", () => {
+			expect(
+				accrueInterest(
+					Money.fromNumber(Currency.USD, 1000),
+					5,
+					{ years: 1 },
+					{
+						compounding: "monthly",
+						rounding: "floor",
+					},
+				).toNumber(),
+			).toBe(51.16);
+			expect(
+				accrueInterest(
+					Money.fromNumber(Currency.USD, 1000),
+					5,
+					{ years: 1 },
+					{
+						compounding: "monthly",
+						rounding: "ceil",
+					},
+				).toNumber(),
+			).toBe(51.17);
+		});
+	});
+
+	test("keeps the currency and unbounded flag", () => {
+		const huge = Money.fromMinorBigInt(Currency.BTC, 10n ** 30n, {
+			unbounded: true,
+		});
+		const interest = accrueInterest(huge, 10, { years: 1 });
+		expect(interest.currency).toBe(Currency.BTC);
+		expect(interest.toMinorBigInt()).toBe(10n ** 29n);
+	});
+
+	test("rejects negative periods", () => {
+		expect(() =>
+			accrueInterest(Money.fromNumber(Currency.USD, 1), 5, {
+				start: new Date("2024-02-01T00:00:00Z"),
+				end: new Date("2024-01-01T00:00:00Z"),
+			}),
+		).toThrow("Interest period must not be negative");
+	});
+});
+
+describe("APR and APY", () => {
+	test("aprToApy compounds the nominal rate exactly", () => {
+		expect(aprToApy(12, "monthly").toFixed(6)).toBe("12.682503");
+		expect(aprToApy(5, "daily").toFixed(6)).toBe("5.126750");
+		expect(aprToApy(8, "annual").toString()).toBe("8");
+		expect(aprToApy(8, "semiannual").toString()).toBe("8.16");
+	});
+
+	test("apyToApr inverts aprToApy", () => {
+		expect(apyToApr("8.16", "semiannual").toFixed(10)).toBe("8.0000000000");
+		expect(apyToApr(aprToApy(12, "monthly"), "monthly").toFixed(15)).toBe(
+			"12.000000000000000",
+		);
+		expect(apyToApr(5, "daily").toFixed(6)).toBe("4.879343");
+	});
+
+	test("apyToApr rejects yields of -100% or less", () => {
+		expect(() => apyToApr(-100, "monthly")).toThrow(
+			"APY must be greater than -100%",
+		);
+	});
+});
@@ -0,0 +1,330 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Invoice, type LineItem, Money, type TaxRate } from "../src";
+
+const salesTax: TaxRate[] = [
+	{ id: "state", percent: 6.25 },
+	{ id: "city", percent: "1.5" },
+];
+
+function expectReconciled(invoice: Invoice) {
+	const zero = Money.fromMinor(invoice.currency, 0);
+	const lineTotals = Money.sum([zero, ...invoice.lines.map((l) => l.total)]);
+	expect(
+		lineTotals
+			.add(invoice.shipping)
+			.add(invoice.shippingTax)
+			.equals(invoice.total),
+	).toBe(true);
+	expect(
+		invoice.subtotal
+			.subtract(invoice.discount)
+			.add(invoice.shipping)
+			.add(invoice.tax)
+			.equals(invoice.total),
+	).toBe(true);
+	for (const line of invoice.lines) {
+		expect(line.amount.subtract(line.discount).equals(line.net)).toBe(true);
+		expect(line.net.add(line.tax).equals(line.total)).toBe(true);
+	}
+}
+
+describe("Invoice", () => {
+	test("multiplies quantity by unit price and sums lines", () => {
+		const invoice = Invoice.create(Currency.USD, [
+			{
+				description: "Widget",
+				quantity: 3,
+				unitPrice: Money.fromNumber(Currency.USD, 4.99),
+			},
+			{
+				description: "Gadget",
+				quantity: 1,
+				unitPrice: Money.fromNumber(Currency.USD, 12),
+			},
+		]);
+		expect(invoice.lines.map((line) => line.amount.toNumber())).toEqual([
+			14.97, 12,
+		]);
+		expect(invoice.subtotal.toNumber()).toBe(26.97);
+		expect(invoice.tax.isZero()).toBe(true);
+		expect(invoice.total.toNumber()).toBe(26.97);
+	});
+
+	test("applies fixed and percentage line discounts", () => {
+		const invoice = Invoice.create(Currency.USD, [
+			{
+				quantity: 2,
+				unitPrice: Money.fromNumber(Currency.USD, 10),
+				discount: Money.fromNumber(Currency.USD, 3),
+			},
+			{
+				quantity: 1,
+				unitPrice: Money.fromNumber(Currency.USD, 19.99),
+				discount: { percent: 15 },
+			},
+		]);
+		// 15% of 19.99 = 2.9985
+		expect(invoice.lines.map((line) => line.discount.toNumber())).toEqual([
+			3, 3,
+		]);
+		expect(invoice.discount.toNumber()).toBe(6);
+		expect(invoice.net.toNumber()).toBe(33.99);
+		expectReconciled(invoice);
+	});
+
+	test("adds line tax, shipping and shipping tax", () => {
+		const invoice = Invoice.create(
+			Currency.USD,
+			[
+				{ quantity: 1, unitPrice: Money.fromNumber(Currency.USD, 100) },
+				{
+					quantity: 1,
+					unitPrice: Money.fromNumber(Currency.USD, 20),
+					exempt: true,
+				},
+			],
+			{
+				taxRates: salesTax,
+				shipping: Money.fromNumber(Currency.USD, 10),
+				taxShipping: true,
+			},
+		);
+		expect(invoice.lines[0]?.tax.toNumber()).toBe(7.75);
+		expect(invoice.lines[1]?.tax.isZero()).toBe(true);
+		// 6.25% and 1.5% of 10.00 = 0.625 + 0.15
+		expect(invoice.shippingTax.toNumber()).toBe(0.78);
+		expect(invoice.taxes.map((tax) => tax.amount.toNumber())).toEqual([
+			6.88, 1.65,
+		]);
+		expect(invoice.total.toNumber()).toBe(138.53);
+		expectReconciled(invoice);
+	});
+
+	test("leaves shipping untaxed by default", () => {
+		const invoice = Invoice.create(
+			Currency.USD,
+			[{ quantity: 1, unitPrice: Money.fromNumber(Currency.USD, 100) }],
+			{ taxRates: salesTax, shipping: Money.fromNumber(Currency.USD, 10) },
+		);
+		expect(invoice.shippingTax.isZero()).toBe(true);
+		expect(invoice.total.toNumber()).toBe(117.75);
+	});
+
+	describe("rounding level", () => {
+		const items: LineItem[] = [
+			{ quantity: "0.333", unitPrice: Money.fromNumber(Currency.USD, 1) },
+			{ quantity: "0.333", unitPrice: Money.fromNumber(Currency.USD, 1) },
+			{ quantity: "0.333", unitPrice: Money.fromNumber(Currency.USD, 1) },
+		];
+
+		test("line rounding rounds each line", () => {
+			const invoice = Invoice.create(Currency.USD, items);
+			expect(invoice.lines.map((line) => line.amount.toMinor())).toEqual([
+				33, 33, 33,
+			]);
+			expect(invoice.subtotal.toMinor()).toBe(99);
+		});
+
+		test("document rounding rounds totals once and allocates them", () => {
+			const invoice = Invoice.create(Currency.USD, items, {
+				roundingLevel: "document",
+			});
+			// 3 x 0.333 = 0.999 -> 1.00
+			expect(invoice.subtotal.toMinor()).toBe(100);
+			expect(invoice.lines.map((line) => line.amount.toMinor())).toEqual([
+				34, 33, 33,
+			]);
+			expectReconciled(invoice);
+		});
+
+		test("document rounding never discounts a line below zero", () => {
+			const invoice = Invoice.create(
+				Currency.USD,
+				[
+					{
+						quantity: "0.5",
+						unitPrice: Money.fromNumber(Currency.USD, 0.01),
+						discount: { percent: 100 },
+					},
+					{ quantity: "0.6", unitPrice: Money.fromNumber(Currency.USD, 0.01) },
+				],
+				{ roundingLevel: "document" },
+			);
+			for (const line of invoice.lines) {
+				expect(line.net.isNegative()).toBe(false);
+				expect(line.discount.greaterThan(line.amount)).toBe(false);
+			}
+			expect(invoice.lines[0]?.net.isZero()).toBe(true);
+			expectReconciled(invoice);
+		});
+
+		test("document rounding derives discounts from the rounded nets", () => {
+			const invoice = Invoice.create(
+				Currency.USD,
+				[
+					{ quantity: "0.5", unitPrice: Money.fromNumber(Currency.USD, 0.01) },
+					{
+						quantity: "0.6",
+						unitPrice: Money.fromNumber(Currency.USD, 0.01),
+						discount: { percent: 100 },
+					},
+				],
+				{ roundingLevel: "document" },
+			);
+			expect(invoice.subtotal.toNumber()).toBe(0.01);
+			expect(invoice.discount.isZero()).toBe(true);
+			expect(Money.sum(invoice.lines.map((line) => line.net)).toNumber()).toBe(
+				0.01,
+			);
+			expectReconciled(invoice);
+		});
+
+		test("totals reconcile with mixed rates and fractional quantities", () => {
+			for (const roundingLevel of ["line", "document"] as const) {
+				const invoice = Invoice.create(
+					Currency.USD,
+					[
+						{
+							quantity: "1.25",
+							unitPrice: Money.fromNumber(Currency.USD, 3.33),
+							discount: { percent: 7 },
+						},
+						{
+							quantity: 7,
+							unitPrice: Money.fromNumber(Currency.USD, 0.99),
+							exempt: ["city"],
+						},
+						{
+							quantity: "0.5",
+							unitPrice: Money.fromNumber(Currency.USD, 19.99),
+							discount: Money.fromNumber(Currency.USD, 1),
+						},
+						{ quantity: 1, unitPrice: Money.fromNumber(Currency.USD, -2.5) },
+					],
+					{
+						taxRates: salesTax,
+						shipping: Money.fromNumber(Currency.USD, 4.95),
+						taxShipping: true,
+						roundingLevel,
+						rounding: "halfEven",
+					},
+				);
+				expectReconciled(invoice);
+			}
+		});
+	});
+
+	test("addLine returns a new invoice", () => {
+		const empty = Invoice.create(Currency.USD, [], { taxRates: salesTax });
+		expect(empty.total.isZero()).toBe(true);
+		expect(empty.taxes.map((tax) => tax.id)).toEqual(["state", "city"]);
+
+		const invoice = empty.addLine({
+			quantity: 1,
+			unitPrice: Money.fromNumber(Currency.USD, 10),
+		});
+		expect(empty.lines).toHaveLength(0);
+		expect(invoice.total.toNumber()).toBe(10.78);
+	});
+
+	test("toJSON emits a summary in minor units", () => {
+		const invoice = Invoice.create(
+			Currency.USD,
+			[
+				{
+					description: "Widget",
+					quantity: "1.5",
+					unitPrice: Money.fromNumber(Currency.USD, 2),
+				},
+			],
+			{
+				taxRates: [{ id: "vat", percent: 10 }],
+				shipping: Money.fromNumber(Currency.USD, 1),
+			},
+		);
+		const json = JSON.parse(JSON.stringify(invoice));
+		expect(json).toEqual({
+			currency: "USD",
+			lines: [
+				{
+					description: "Widget",
+					quantity: "1.5",
+					unitPrice: { amount: 200, currency: "USD" },
+					amount: { amount: 300, currency: "USD" },
+					discount: { amount: 0, currency: "USD" },
+					net: { amount: 300, currency: "USD" },
+					taxes: [{ id: "vat", amount: { amount: 30, currency: "USD" } }],
+					tax: { amount: 30, currency: "USD" },
+					total: { amount: 330, currency: "USD" },
+				},
+			],
+			subtotal: { amount: 300, currency: "USD" },
+			discount: { amount: 0, currency: "USD" },
+			net: { amount: 300, currency: "USD" },
+			shipping: { amount: 100, currency: "USD" },
+			shippingTax: { amount: 0, currency: "USD" },
+			taxes: [{ id: "vat", amount: { amount: 30, currency: "USD" } }],
+			tax: { amount: 30, currency: "USD" },
+			total: { amount: 430, currency: "USD" },
+		});
+	});
+
+	describe("validation", () => {
+		test("rejects amounts in another currency", () => {
+			const eur = Money.fromNumber(Currency.EUR, 1);
+			expect(() =>
+				Invoice.create(Currency.USD, [{ quantity: 1, unitPrice: eur }]),
+			).toThrow("Cannot invoice USD and EUR: currency mismatch");
+			expect(() =>
+				Invoice.create(Currency.USD, [
+					{
+						quantity: 1,
+						unitPrice: Money.fromNumber(Currency.USD, 5),
+						discount: eur,
+					},
+				]),
+			).toThrow("currency mismatch");
+			expect(() => Invoice.create(Currency.USD, [], { shipping: eur })).toThrow(
+				"currency mismatch",
+			);
+		});
+
+		test("rejects invalid discounts", () => {
+			expect(() =>
+				Invoice.create(Currency.USD, [
+					{
+						quantity: 1,
+						unitPrice: Money.fromNumber(Currency.USD, 5),
+						discount: Money.fromNumber(Currency.USD, 6),
+					},
+				]),
+			).toThrow("Line discount must not exceed the line amount");
+			expect(() =>
+				Invoice.create(Currency.USD, [
+					{
+						quantity: 1,
+						unitPrice: Money.fromNumber(Currency.USD, 5),
+						discount: Money.fromNumber(Currency.USD, -1),
+					},
+				]),
+			).toThrow("Line discount must not be negative");
+			expect(() =>
+				Invoice.create(Currency.USD, [
+					{
+						quantity: 1,
+						unitPrice: Money.fromNumber(Currency.USD, 5),
+						discount: { percent: 120 },
+					},
+				]),
+			).toThrow("Discount percent must be between 0 and 100");
+		});
+
+		test("rejects invalid quantities", () => {
+			expect(() =>
+				Invoice.create(Currency.USD, [
+					{ quantity: "two", unitPrice: Money.fromNumber(Currency.USD, 5) },
+				]),
+			).toThrow();
+		});
+	});
+});
@@ -0,0 +1,417 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Ledger, Money } from "../src";
+
+function walletLedger(): Ledger {
+	const ledger = new Ledger();
+	ledger.openAccount("cash", Currency.USD, "asset");
+	ledger.openAccount("wallet", Currency.USD, "liability");
+	ledger.openAccount("fees", Currency.USD, "income");
+	ledger.openAccount("cash-eur", Currency.EUR, "asset");
+	ledger.openAccount("wallet-eur", Currency.EUR, "liability");
+	return ledger;
+}
+
+describe("Ledger", () => {
+	describe("post", () => {
+		test("records balanced entries and updates balances", () => {
+			const ledger = walletLedger();
+			ledger.post({
+				id: "deposit-1",
+				date: new Date("2024-01-01T00:00:00Z"),
+				postings: [
+					{
+						account: "cash",
+						side: "debit",
+						amount: Money.fromNumber(Currency.USD, 100),
+					},
+					{
+						account: "wallet",
+						side: "credit",
+						amount: Money.fromNumber(Currency.USD, 100),
+					},
+				],
+			});
+			ledger.post({
+				id: "fee-1",
+				postings: [
+					{
+						account: "wallet",
+						side: "debit",
+						amount: Money.fromNumber(Currency.USD, 1.5),
+					},
+					{
+						account: "fees",
+						side: "credit",
+						amount: Money.fromNumber(Currency.USD, 1.5),
+					},
+				],
+			});
+			expect(ledger.balance("cash").toNumber()).toBe(100);
+			expect(ledger.balance("wallet").toNumber()).toBe(98.5);
+			expect(ledger.balance("fees").toNumber()).toBe(1.5);
+			expect(ledger.entries.map((entry) => entry.id)).toEqual([
+				"deposit-1",
+				"fee-1",
+			]);
+		});
+
+		test("allows entries spanning several currencies when each balances", () => {
+			const ledger = walletLedger();
+			ledger.post({
+				id: "multi",
+				postings: [
+					{
+						account: "cash",
+						side: "debit",
+						amount: Money.fromNumber(Currency.USD, 10),
+					},
+					{
+						account: "wallet",
+						side: "credit",
+						amount: Money.fromNumber(Currency.USD, 10),
+					},
+					{
+						account: "cash-eur",
+						side: "debit",
+						amount: Money.fromNumber(Currency.EUR, 5),
+					},
+					{
+						account: "wallet-eur",
+						side: "credit",
+						amount: Money.fromNumber(Currency.EUR, 5),
+					},
+				],
+			});
+			expect(ledger.balance("wallet-eur").toNumber()).toBe(5);
+		});
+
+		test("rejects unbalanced entries without changing the ledger", () => {
+			const ledger = walletLedger();
+			expect(() =>
+				ledger.post({
+					id: "bad",
+					postings: [
+						{
+							account: "cash",
+							side: "debit",
+							amount: Money.fromNumber(Currency.USD, 10),
+						},
+						{
+							account: "wallet",
+							side: "credit",
+							amount: Money.fromNumber(Currency.USD, 9),
+						},
+					],
+				}),
+			).toThrow(
+				'Journal entry "bad" does not balance in USD: debits 10.00, credits 9.00',
+			);
+			expect(() =>
+				ledger.post({
+					id: "cross",
+					postings: [
+						{
+							account: "cash",
+							side: "debit",
+							amount: Money.fromNumber(Currency.USD, 10),
+						},
+						{
+							account: "wallet-eur",
+							side: "credit",
+							amount: Money.fromNumber(Currency.EUR, 10),
+						},
+					],
+				}),
+			).toThrow("does not balance in USD");
+			expect(ledger.entries).toHaveLength(0);
+			expect(ledger.balance("cash").isZero()).toBe(true);
+		});
+
+		test("rejects invalid postings", () => {
+			const ledger = walletLedger();
+			const post = (postings: Parameters<Ledger["post"]>[0]["postings"]) =>
+				ledger.post({ id: "x", postings });
+
+			expect(() =>
+				post([
+					{
+						account: "cash",
+						side: "debit",
+						amount: Money.fromNumber(Currency.USD, 1),
+					},
+				]),
+			).toThrow('Journal entry "x" needs at least two postings');
+			expect(() =>
+				post([
+					{
+						account: "cash",
+						side: "debit",
+						amount: Money.fromNumber(Currency.USD, 1),
+					},
+					{
+						account: "nope",
+						side: "credit",
+						amount: Money.fromNumber(Currency.USD, 1),
+					},
+				]),
+			).toThrow('Unknown account "nope"');
+			expect(() =>
+				post([
+					{
+						account: "cash",
+						side: "debit",
+						amount: Money.fromNumber(Currency.EUR, 1),
+					},
+					{
+						account: "wallet-eur",
+						side: "credit",
+						amount: Money.fromNumber(Currency.EUR, 1),
+					},
+				]),
+			).toThrow("Cannot post USD and EUR: currency mismatch");
+			expect(() =>
+				post([
+					{
+						account: "cash",
+						side: "debit",
+						amount: Money.fromNumber(Currency.USD, 0),
+					},
+					{
+						account: "wallet",
+						side: "credit",
+						amount: Money.fromNumber(Currency.USD, 0),
+					},
+				]),
+			).toThrow('Posting to "cash" must have a positive amount');
+		});
+
+		test("rejects duplicate ids and accounts", () => {
+			const ledger = walletLedger();
+			const entry = {
+				id: "once",
+				postings: [
+					{
+						account: "cash",
+						side: "debit" as const,
+						amount: Money.fromNumber(Currency.USD, 1),
+					},
+					{
+						account: "wallet",
+						side: "credit" as const,
+						amount: Money.fromNumber(Currency.USD, 1),
+					},
+				],
+			};
+			ledger.post(entry);
+			expect(() => ledger.post(entry)).toThrow(
+				'Journal entry "once" already exists',
+			);
+			expect(() => ledger.openAccount("cash", Currency.USD, "asset")).toThrow(
+				'Account "cash" already exists',
+			);
+		});
+	});
+
+	test("history gives running balances for one account", () => {
+		const ledger = walletLedger();
+		const transfer = (id: string, side: "debit" | "credit", value: number) =>
+			ledger.post({
+				id,
+				postings: [
+					{
+						account: "wallet",
+						side,
+						amount: Money.fromNumber(Currency.USD, value),
+					},
+					{
+						account: "cash",
+						side: side === "debit" ? "credit" : "debit",
+						amount: Money.fromNumber(Currency.USD, value),
+					},
+				],
+			});
+		transfer("in", "credit", 50);
+		transfer("out", "debit", 20);
+		ledger.post({
+			id: "unrelated",
+			postings: [
+				{
+					account: "cash-eur",
+					side: "debit",
+					amount: Money.fromNumber(Currency.EUR, 1),
+				},
+				{
+					account: "wallet-eur",
+					side: "credit",
+					amount: Money.fromNumber(Currency.EUR, 1),
+				},
+			],
+		});
+		transfer("in-2", "credit", 5.25);
+
+		const history = ledger.history("wallet");
+		expect(history.map((line) => line.entry)).toEqual(["in", "out", "in-2"]);
+		expect(history.map((line) => line.change.toNumber())).toEqual([
+			50, -20, 5.25,
+		]);
+		expect(history.map((line) => line.balance.toNumber())).toEqual([
+			50, 30, 35.25,
+		]);
+	});
+
+	test("trialBalance puts net balances in debit and credit columns", () => {
+		const ledger = walletLedger();
+		ledger.post({
+			id: "deposit",
+			postings: [
+				{
+					account: "cash",
+					side: "debit",
+					amount: Money.fromNumber(Currency.USD, 100),
+				},
+				{
+					account: "wallet",
+					side: "credit",
+					amount: Money.fromNumber(Currency.USD, 100),
+				},
+			],
+		});
+		ledger.post({
+			id: "deposit-eur",
+			postings: [
+				{
+					account: "cash-eur",
+					side: "debit",
+					amount: Money.fromNumber(Currency.EUR, 7),
+				},
+				{
+					account: "wallet-eur",
+					side: "credit",
+					amount: Money.fromNumber(Currency.EUR, 7),
+				},
+			],
+		});
+
+		const report = ledger.trialBalance();
+		expect(
+			report.rows.map((row) => [
+				row.account,
+				row.debit.toNumber(),
+				row.credit.toNumber(),
+			]),
+		).toEqual([
+			["cash", 100, 0],
+			["wallet", 0, 100],
+			["fees", 0, 0],
+			["cash-eur", 7, 0],
+			["wallet-eur", 0, 7],
+		]);
+		expect(report.debits.get(Currency.USD).toNumber()).toBe(100);
+		expect(report.credits.get(Currency.EUR).toNumber()).toBe(7);
+		expect(report.balanced).toBe(true);
+	});
+
+	test("balances are kept beyond the safe integer range", () => {
+		const ledger = walletLedger();
+		const huge = Money.fromMinorBigInt(Currency.USD, 2n ** 60n, {
+			unbounded: true,
+		});
+		for (const id of ["a", "b"]) {
+			ledger.post({
+				id,
+				postings: [
+					{ account: "cash", side: "debit", amount: huge },
+					{ account: "wallet", side: "credit", amount: huge },
+				],
+			});
+		}
+		expect(ledger.balance("cash").toMinorBigInt()).toBe(2n ** 61n);
+	});
+
+	test("balances entries whose bounded postings sum past the safe range", () => {
+		const ledger = walletLedger();
+		const max = Money.fromMinor(Currency.USD, Number.MAX_SAFE_INTEGER);
+		ledger.post({
+			id: "large",
+			postings: [
+				{ account: "cash", side: "debit", amount: max },
+				{ account: "cash", side: "debit", amount: max },
+				{ account: "wallet", side: "credit", amount: max },
+				{ account: "wallet", side: "credit", amount: max },
+			],
+		});
+		expect(ledger.balance("cash").toMinorBigInt()).toBe(
+			2n * BigInt(Number.MAX_SAFE_INTEGER),
+		);
+	});
+
+	describe("serialization", () => {
+		test("replays a serialized entry log deterministically", () => {
+			const ledger = walletLedger();
+			ledger.post({
+				id: "deposit",
+				date: new Date("2024-03-01T12:00:00Z"),
+				description: "Top-up",
+				postings: [
+					{
+						account: "cash",
+						side: "debit",
+						amount: Money.fromNumber(Currency.USD, 12.34),
+					},
+					{
+						account: "wallet",
+						side: "credit",
+						amount: Money.fromNumber(Currency.USD, 12.34),
+					},
+				],
+			});
+			const json = JSON.parse(JSON.stringify(ledger));
+			expect(json.entries[0].postings[0]).toEqual({
+				account: "cash",
+				side: "debit",
+				amount: { amount: "1234", currency: "USD" },
+			});
+
+			const replayed = Ledger.fromJSON(json);
+			expect(replayed.toJSON()).toEqual(ledger.toJSON());
+			expect(replayed.balance("wallet").toNumber()).toBe(12.34);
+			expect(replayed.entries[0]?.date?.toISOString()).toBe(
+				"2024-03-01T12:00:00.000Z",
+			);
+		});
+
+		test("replay validates every entry", () => {
+			expect(() =>
+				Ledger.fromJSON({
+					accounts: [
+						{ id: "cash", currency: "USD", type: "asset" },
+						{ id: "wallet", currency: "USD", type: "liability" },
+					],
+					entries: [
+						{
+							id: "bad",
+							postings: [
+								{
+									account: "cash",
+									side: "debit",
+									amount: { amount: "100", currency: "USD" },
+								},
+								{
+									account: "wallet",
+									side: "credit",
+									amount: { amount: "99", currency: "USD" },
+								},
+							],
+						},
+					],
+				}),
+			).toThrow("does not balance");
+			expect(() =>
+				Ledger.fromJSON({
+					accounts: [{ id: "x", currency: "ZZZ", type: "asset" }],
+					entries: [],
+				}),
+			).toThrow('Unknown currency "ZZZ" for account "x"');
+		});
+	});
+});
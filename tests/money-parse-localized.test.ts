@@ -0,0 +1,182 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Money, MoneyParseError } from "../src";
+
+function parseError(run: () => unknown): MoneyParseError | undefined {
+	try {
+		run();
+	} catch (error) {
+		if (error instanceof MoneyParseError) return error;
+		throw error;
+	}
+	return undefined;
+}
+
+describe("Money.parseLocalized", () => {
+	describe("separators", () => {
+		test("parses en-US grouping", () => {
+			const money = Money.parseLocalized("1,234.56", Currency.USD, "en-US");
+			expect(money.toMinor()).toBe(123456);
+		});
+
+		test("parses de-DE grouping", () => {
+			const money = Money.parseLocalized("1.234,56", Currency.EUR, "de-DE");
+			expect(money.toMinor()).toBe(123456);
+		});
+
+		test("accepts a plain space where the locale groups with a no-break space", () => {
+			const money = Money.parseLocalized("12 345,67", Currency.EUR, "fr-FR");
+			expect(money.toMinor()).toBe(1234567);
+		});
+
+		test("accepts apostrophes for de-CH grouping", () => {
+			const money = Money.parseLocalized("1'234.50", Currency.CHF, "de-CH");
+			expect(money.toMinor()).toBe(123450);
+		});
+
+		test("accepts en-IN lakh grouping", () => {
+			const money = Money.parseLocalized("1,23,456.50", Currency.INR, "en-IN");
+			expect(money.toMinor()).toBe(12345650);
+		});
+
+		test("accepts ungrouped input and leading decimal separator", () => {
+			expect(
+				Money.parseLocalized("1234,5", Currency.EUR, "de-DE").toMinor(),
+			).toBe(123450);
+			expect(Money.parseLocalized(".5", Currency.USD, "en-US").toMinor()).toBe(
+				50,
+			);
+		});
+
+		test("accepts locale digits", () => {
+			const money = Money.parseLocalized("١٬٢٣٤٫٥٦", Currency.USD, "ar-EG");
+			expect(money.toMinor()).toBe(123456);
+		});
+	});
+
+	describe("currency symbols and codes", () => {
+		test("parses a leading symbol", () => {
+			const money = Money.parseLocalized("$1,234.56", Currency.USD, "en-US");
+			expect(money.toMinor()).toBe(123456);
+		});
+
+		test("parses a trailing symbol", () => {
+			const money = Money.parseLocalized("1 234,56 kr", Currency.SEK, "sv-SE");
+			expect(money.toMinor()).toBe(123456);
+		});
+
+		test("parses the currency code", () => {
+			expect(
+				Money.parseLocalized("USD 12", Currency.USD, "en-US").toMinor(),
+			).toBe(1200);
+			expect(
+				Money.parseLocalized("12 USDH", Currency.USDH, "en-US").toMinor(),
+			).toBe(12000);
+		});
+	});
+
+	describe("signs", () => {
+		test("parses accounting parentheses", () => {
+			expect(
+				Money.parseLocalized("(12.00)", Currency.USD, "en-US").toMinor(),
+			).toBe(-1200);
+			expect(
+				Money.parseLocalized("($12.00)", Currency.USD, "en-US").toMinor(),
+			).toBe(-1200);
+		});
+
+		test("parses minus variants", () => {
+			for (const input of ["-12", "−12", "–12", "-$12", "$-12", "12-"]) {
+				expect(
+					Money.parseLocalized(input, Currency.USD, "en-US").toMinor(),
+				).toBe(-1200);
+			}
+		});
+
+		test("parses an explicit plus sign", () => {
+			expect(Money.parseLocalized("+12", Currency.USD, "en-US").toMinor()).toBe(
+				1200,
+			);
+		});
+	});
+
+	describe("options", () => {
+		test("rounds extra decimals by default", () => {
+			const money = Money.parseLocalized("1.235", Currency.USD, "en-US");
+			expect(money.toMinor()).toBe(124);
+		});
+
+		test("strict mode rejects extra decimals", () => {
+			expect(() =>
+				Money.parseLocalized("1.235", Currency.USD, "en-US", { strict: true }),
+			).toThrow("Precision loss");
+		});
+	});
+
+	describe("errors", () => {
+		test("rejects a decimal point typed in a comma-decimal locale", () => {
+			const error = parseError(() =>
+				Money.parseLocalized("12.5", Currency.EUR, "de-DE"),
+			);
+			expect(error?.message).toBe("Invalid digit grouping at position 2");
+			expect(error?.position).toBe(2);
+		});
+
+		test("rejects en-US input in de-DE", () => {
+			const error = parseError(() =>
+				Money.parseLocalized("1,234.56", Currency.EUR, "de-DE"),
+			);
+			expect(error?.position).toBe(5);
+		});
+
+		test("reports unexpected characters with position", () => {
+			const error = parseError(() =>
+				Money.parseLocalized("12€", Currency.USD, "en-US"),
+			);
+			expect(error?.message).toBe('Unexpected character "€" at position 2');
+			expect(error?.input).toBe("12€");
+		});
+
+		test("reports empty input", () => {
+			const error = parseError(() =>
+				Money.parseLocalized("", Currency.USD, "en-US"),
+			);
+			expect(error?.message).toBe("Empty input at position 0");
+		});
+
+		test("reports missing number", () => {
+			const error = parseError(() =>
+				Money.parseLocalized("$abc", Currency.USD, "en-US"),
+			);
+			expect(error?.position).toBe(1);
+		});
+
+		test("reports unbalanced parentheses", () => {
+			expect(
+				parseError(() => Money.parseLocalized("(12", Currency.USD, "en-US"))
+					?.position,
+			).toBe(3);
+			expect(
+				parseError(() => Money.parseLocalized("12)", Currency.USD, "en-US"))
+					?.position,
+			).toBe(2);
+		});
+
+		test("rejects a sign combined with parentheses", () => {
+			expect(() =>
+				Money.parseLocalized("(-12)", Currency.USD, "en-US"),
+			).toThrow(MoneyParseError);
+		});
+
+		test("rejects a trailing decimal separator", () => {
+			expect(() => Money.parseLocalized("12.", Currency.USD, "en-US")).toThrow(
+				"Expected digit after decimal separator",
+			);
+		});
+
+		test("rejects a duplicate currency symbol", () => {
+			expect(() =>
+				Money.parseLocalized("$12 USD", Currency.USD, "en-US"),
+			).toThrow("Duplicate currency symbol");
+		});
+	});
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { Currency, Money } from "../src";
+import { Currency, Money, type RoundingMode } from "../src";
 
 describe("Money", () => {
 	describe("Money.percentOf (static)", () => {
@@ -399,6 +399,116 @@ describe("Money", () => {
 		});
 	});
 
+	describe("Money.removePercent (static)", () => {
+		test("recovers net from gross", () => {
+			const gross = Money.fromNumber(Currency.USD, 108.25);
+			expect(Money.removePercent(gross, 8.25).toNumber()).toBe(100);
+		});
+
+		test("rounds the quotient once", () => {
+			// 10.00 / 1.2 = 8.333...
+			const gross = Money.fromNumber(Currency.USD, 10);
+			expect(Money.removePercent(gross, 20).toNumber()).toBe(8.33);
+			expect(
+				Money.removePercent(gross, 20, { rounding: "ceil" }).toNumber(),
+			).toBe(8.34);
+		});
+
+		test("accepts exact percent inputs", () => {
+			const gross = Money.fromNumber(Currency.USD, 110);
+			expect(Money.removePercent(gross, "10").toNumber()).toBe(100);
+			expect(Money.removePercent(gross, [10n, 1n]).toNumber()).toBe(100);
+		});
+
+		test("handles negative amounts and zero percent", () => {
+			const gross = Money.fromNumber(Currency.USD, -108.25);
+			expect(Money.removePercent(gross, 8.25).toNumber()).toBe(-100);
+			expect(Money.removePercent(gross, 0).equals(gross)).toBe(true);
+		});
+
+		test("handles negative percentages above -100", () => {
+			const gross = Money.fromNumber(Currency.USD, 90);
+			expect(Money.removePercent(gross, -10).toNumber()).toBe(100);
+		});
+
+		test("rejects -100% and below", () => {
+			const gross = Money.fromNumber(Currency.USD, 1);
+			expect(() => Money.removePercent(gross, -100)).toThrow(
+				"Cannot remove a percentage of -100% or less",
+			);
+			expect(() => Money.removePercent(gross, -150)).toThrow();
+		});
+
+		test("is the inverse of incrementByPercent for nearest rounding", () => {
+			const modes: RoundingMode[] = [
+				"round",
+				"halfEven",
+				"halfDown",
+				"halfOdd",
+			];
+			const percents = [0.5, 7, 8.25, 19, 33.333, 100, 250];
+			for (const rounding of modes) {
+				for (const percent of percents) {
+					for (let minor = -2000; minor <= 2000; minor += 37) {
+						const net = Money.fromMinor(Currency.USD, minor);
+						const gross = net.incrementByPercent(percent, { rounding });
+						expect(gross.removePercent(percent, { rounding }).toMinor()).toBe(
+							minor,
+						);
+					}
+				}
+			}
+		});
+	});
+
+	describe("Money.percentage and Money.ratio", () => {
+		test("percentage returns the exact percent", () => {
+			const part = Money.fromNumber(Currency.USD, 25);
+			const whole = Money.fromNumber(Currency.USD, 200);
+			expect(Money.percentage(part, whole).toString()).toBe("12.5");
+			expect(part.percentage(whole).toNumber()).toBe(12.5);
+		});
+
+		test("percentage keeps non-terminating values exact", () => {
+			const part = Money.fromNumber(Currency.USD, 1);
+			const whole = Money.fromNumber(Currency.USD, 3);
+			const percent = part.percentage(whole);
+			expect(percent.toString()).toBe("100/3");
+			expect(percent.toFixed(2)).toBe("33.33");
+			expect(whole.percentOf(percent).equals(part)).toBe(true);
+		});
+
+		test("percentage recovers the rate applied by incrementByPercent", () => {
+			const net = Money.fromNumber(Currency.USD, 100);
+			const gross = net.incrementByPercent(8.25);
+			expect(gross.subtract(net).percentage(net).toString()).toBe("8.25");
+		});
+
+		test("ratio divides two amounts exactly", () => {
+			const a = Money.fromNumber(Currency.USD, 3);
+			const b = Money.fromNumber(Currency.USD, 4);
+			expect(Money.ratio(a, b).toString()).toBe("0.75");
+			expect(b.ratio(a).toString()).toBe("4/3");
+		});
+
+		test("ratio handles negative amounts", () => {
+			const a = Money.fromNumber(Currency.USD, -1);
+			const b = Money.fromNumber(Currency.USD, 4);
+			expect(a.ratio(b).toString()).toBe("-0.25");
+			expect(b.ratio(a).toString()).toBe("-4");
+		});
+
+		test("rejects a zero denominator and mismatched currencies", () => {
+			const a = Money.fromNumber(Currency.USD, 1);
+			const zero = Money.fromNumber(Currency.USD, 0);
+			expect(() => a.ratio(zero)).toThrow("Cannot divide by zero");
+			expect(() => a.percentage(zero)).toThrow("Cannot divide by zero");
+			expect(() => a.ratio(Money.fromNumber(Currency.EUR, 1))).toThrow(
+				"currency mismatch",
+			);
+		});
+	});
+
 	describe("instance method wrappers (percent)", () => {
 		test("money.percentOf(percent) delegates to Money.percentOf", () => {
 			const money = Money.fromNumber(Currency.USD, 100);
@@ -0,0 +1,169 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Money } from "../src";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("Money.prorate", () => {
+	test("charges days used out of the period", () => {
+		// 17 of June's 30 days
+		const charge = Money.fromNumber(Currency.USD, 30).prorate({
+			start: d("2024-06-14"),
+			end: d("2024-07-01"),
+			periodStart: d("2024-06-01"),
+			periodEnd: d("2024-07-01"),
+		});
+		expect(charge.toNumber()).toBe(17);
+	});
+
+	test("rounds the exact fraction once", () => {
+		const charge = Money.prorate(Money.fromNumber(Currency.USD, 9.99), {
+			start: d("2024-06-14"),
+			end: d("2024-07-01"),
+			periodStart: d("2024-06-01"),
+			periodEnd: d("2024-07-01"),
+		});
+		// 9.99 * 17 / 30 = 5.661
+		expect(charge.toNumber()).toBe(5.66);
+		expect(
+			Money.prorate(Money.fromNumber(Currency.USD, 9.99), {
+				start: d("2024-06-14"),
+				end: d("2024-07-01"),
+				periodStart: d("2024-06-01"),
+				periodEnd: d("2024-07-01"),
+				rounding: "ceil",
+			}).toNumber(),
+		).toBe(5.67);
+	});
+
+	test("defaults to the calendar month containing start", () => {
+		const options = { start: d("2024-02-15"), end: d("2024-03-01") };
+		// 15 of 29 days in a leap February, 14 of 28 otherwise
+		expect(Money.fromNumber(Currency.USD, 29).prorate(options).toNumber()).toBe(
+			15,
+		);
+		expect(
+			Money.fromNumber(Currency.USD, 28)
+				.prorate({ start: d("2023-02-15"), end: d("2023-03-01") })
+				.toNumber(),
+		).toBe(14);
+		expect(
+			Money.fromNumber(Currency.USD, 31)
+				.prorate({ start: d("2024-01-01"), end: d("2024-01-11") })
+				.toNumber(),
+		).toBe(10);
+	});
+
+	test("handles leap years in annual periods", () => {
+		const annual = Money.fromNumber(Currency.USD, 366);
+		expect(
+			annual
+				.prorate({
+					start: d("2024-02-01"),
+					end: d("2024-03-01"),
+					periodStart: d("2024-01-01"),
+					periodEnd: d("2025-01-01"),
+				})
+				.toNumber(),
+		).toBe(29);
+	});
+
+	test("supports second granularity", () => {
+		const charge = Money.fromNumber(Currency.USD, 30).prorate({
+			start: new Date("2024-06-01T12:00:00Z"),
+			end: new Date("2024-06-02T00:00:00Z"),
+			periodStart: d("2024-06-01"),
+			periodEnd: d("2024-07-01"),
+			granularity: "second",
+		});
+		expect(charge.toNumber()).toBe(0.5);
+	});
+
+	test("validates the range", () => {
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).prorate({
+				start: d("2024-06-10"),
+				end: d("2024-06-05"),
+			}),
+		).toThrow("Proration end must not be before its start");
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).prorate({
+				start: d("2024-05-31"),
+				end: d("2024-06-05"),
+				periodStart: d("2024-06-01"),
+				periodEnd: d("2024-07-01"),
+			}),
+		).toThrow("Proration range must lie within the period");
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).prorate({
+				start: d("2024-06-01"),
+				end: d("2024-06-01"),
+				periodStart: d("2024-06-01"),
+				periodEnd: d("2024-06-01"),
+			}),
+		).toThrow("Proration period must not be empty");
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).prorate({
+				start: d("2024-06-01"),
+				end: d("2024-06-05"),
+				periodStart: d("2024-06-01"),
+			}),
+		).toThrow("periodStart and periodEnd must be given together");
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).prorate({
+				start: new Date("nope"),
+				end: d("2024-06-05"),
+			}),
+		).toThrow("Invalid date");
+	});
+});
+
+describe("Money.prorateAcross", () => {
+	test("splits a charge across sub-periods, summing exactly", () => {
+		const pieces = Money.fromNumber(Currency.USD, 100).prorateAcross([
+			d("2024-06-01"),
+			d("2024-06-11"),
+			d("2024-06-21"),
+			d("2024-07-01"),
+		]);
+		expect(pieces.map((piece) => piece.toNumber())).toEqual([
+			33.34, 33.33, 33.33,
+		]);
+		expect(Money.sum(pieces).toNumber()).toBe(100);
+	});
+
+	test("weights pieces by their length", () => {
+		const pieces = Money.prorateAcross(Money.fromNumber(Currency.USD, 29), [
+			d("2024-02-01"),
+			d("2024-02-15"),
+			d("2024-03-01"),
+		]);
+		expect(pieces.map((piece) => piece.toNumber())).toEqual([14, 15]);
+	});
+
+	test("allows empty sub-periods", () => {
+		const pieces = Money.fromNumber(Currency.USD, 10).prorateAcross([
+			d("2024-06-01"),
+			d("2024-06-01"),
+			d("2024-07-01"),
+		]);
+		expect(pieces.map((piece) => piece.toNumber())).toEqual([0, 10]);
+	});
+
+	test("validates boundaries", () => {
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).prorateAcross([d("2024-06-01")]),
+		).toThrow("Proration needs at least a start and an end date");
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).prorateAcross([
+				d("2024-06-10"),
+				d("2024-06-01"),
+			]),
+		).toThrow("Proration boundaries must be in ascending order");
+		expect(() =>
+			Money.fromNumber(Currency.USD, 1).prorateAcross([
+				d("2024-06-01"),
+				d("2024-06-01"),
+			]),
+		).toThrow("Proration period must not be empty");
+	});
+});
@@ -0,0 +1,334 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Money, MoneyRange } from "../src";
+
+describe("Money.min / Money.max / clamp", () => {
+	test("min and max pick the extremes", () => {
+		const values = [
+			Money.fromNumber(Currency.USD, 5),
+			Money.fromNumber(Currency.USD, -2),
+			Money.fromNumber(Currency.USD, 10),
+			Money.fromNumber(Currency.USD, 3),
+		];
+		expect(Money.min(values).toNumber()).toBe(-2);
+		expect(Money.max(values).toNumber()).toBe(10);
+		expect(Money.min([Money.fromNumber(Currency.USD, 1)]).toNumber()).toBe(1);
+	});
+
+	test("ties return the first value", () => {
+		const first = Money.fromNumber(Currency.USD, 1);
+		expect(Money.min([first, Money.fromNumber(Currency.USD, 1)])).toBe(first);
+		expect(Money.max([first, Money.fromNumber(Currency.USD, 1)])).toBe(first);
+	});
+
+	test("min and max reject empty arrays and mixed currencies", () => {
+		expect(() => Money.min([])).toThrow(
+			"Cannot find min of empty array: at least one Money value required",
+		);
+		expect(() => Money.max([])).toThrow("Cannot find max of empty array");
+		expect(() =>
+			Money.max([
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.EUR, 1),
+			]),
+		).toThrow("currency mismatch");
+	});
+
+	test("clamp limits a value to an inclusive range", () => {
+		expect(
+			Money.fromNumber(Currency.USD, 5)
+				.clamp(
+					Money.fromNumber(Currency.USD, 0),
+					Money.fromNumber(Currency.USD, 10),
+				)
+				.toNumber(),
+		).toBe(5);
+		expect(
+			Money.fromNumber(Currency.USD, -5)
+				.clamp(
+					Money.fromNumber(Currency.USD, 0),
+					Money.fromNumber(Currency.USD, 10),
+				)
+				.toNumber(),
+		).toBe(0);
+		expect(
+			Money.clamp(
+				Money.fromNumber(Currency.USD, 15),
+				Money.fromNumber(Currency.USD, 0),
+				Money.fromNumber(Currency.USD, 10),
+			).toNumber(),
+		).toBe(10);
+		expect(() =>
+			Money.fromNumber(Currency.USD, 5).clamp(
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.USD, 0),
+			),
+		).toThrow("Clamp minimum must not exceed the maximum");
+		expect(() =>
+			Money.fromNumber(Currency.USD, 5).clamp(
+				Money.fromNumber(Currency.EUR, 0),
+				Money.fromNumber(Currency.EUR, 10),
+			),
+		).toThrow("currency mismatch");
+	});
+});
+
+describe("MoneyRange", () => {
+	describe("contains", () => {
+		test("respects inclusive and exclusive bounds", () => {
+			const closed = MoneyRange.closed(
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.USD, 20),
+			);
+			expect(closed.contains(Money.fromNumber(Currency.USD, 10))).toBe(true);
+			expect(closed.contains(Money.fromNumber(Currency.USD, 20))).toBe(true);
+			expect(closed.contains(Money.fromNumber(Currency.USD, 20.01))).toBe(
+				false,
+			);
+
+			const tier = MoneyRange.closedOpen(
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.USD, 20),
+			);
+			expect(tier.contains(Money.fromNumber(Currency.USD, 10))).toBe(true);
+			expect(tier.contains(Money.fromNumber(Currency.USD, 19.99))).toBe(true);
+			expect(tier.contains(Money.fromNumber(Currency.USD, 20))).toBe(false);
+
+			const open = MoneyRange.from({
+				min: Money.fromNumber(Currency.USD, 10),
+				max: Money.fromNumber(Currency.USD, 20),
+				minInclusive: false,
+				maxInclusive: false,
+			});
+			expect(open.contains(Money.fromNumber(Currency.USD, 10))).toBe(false);
+			expect(open.contains(Money.fromNumber(Currency.USD, 10.01))).toBe(true);
+		});
+
+		test("supports open-ended ranges", () => {
+			expect(
+				MoneyRange.atLeast(Money.fromNumber(Currency.USD, 100)).contains(
+					Money.fromNumber(Currency.USD, 1e9),
+				),
+			).toBe(true);
+			expect(
+				MoneyRange.atMost(Money.fromNumber(Currency.USD, 100)).contains(
+					Money.fromNumber(Currency.USD, -1e9),
+				),
+			).toBe(true);
+			expect(
+				MoneyRange.from({}).contains(Money.fromNumber(Currency.USD, 0)),
+			).toBe(true);
+			const fraud = MoneyRange.from({
+				min: Money.fromNumber(Currency.USD, 1000),
+				minInclusive: false,
+			});
+			expect(fraud.contains(Money.fromNumber(Currency.USD, 1000))).toBe(false);
+			expect(fraud.contains(Money.fromNumber(Currency.USD, 1000.01))).toBe(
+				true,
+			);
+		});
+
+		test("rejects other currencies", () => {
+			expect(() =>
+				MoneyRange.atLeast(Money.fromNumber(Currency.USD, 1)).contains(
+					Money.fromNumber(Currency.EUR, 5),
+				),
+			).toThrow("currency mismatch");
+		});
+	});
+
+	test("rejects empty and mixed-currency ranges", () => {
+		expect(() =>
+			MoneyRange.closed(
+				Money.fromNumber(Currency.USD, 2),
+				Money.fromNumber(Currency.USD, 1),
+			),
+		).toThrow("Money range must not be empty");
+		expect(() =>
+			MoneyRange.closedOpen(
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.USD, 1),
+			),
+		).toThrow("Money range must not be empty");
+		expect(
+			MoneyRange.closed(
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.USD, 1),
+			).contains(Money.fromNumber(Currency.USD, 1)),
+		).toBe(true);
+		expect(() =>
+			MoneyRange.closed(
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.EUR, 2),
+			),
+		).toThrow("currency mismatch");
+	});
+
+	describe("intersect and overlaps", () => {
+		test("returns the common part", () => {
+			const a = MoneyRange.closed(
+				Money.fromNumber(Currency.USD, 0),
+				Money.fromNumber(Currency.USD, 50),
+			);
+			const b = MoneyRange.closedOpen(
+				Money.fromNumber(Currency.USD, 25),
+				Money.fromNumber(Currency.USD, 100),
+			);
+			const both = a.intersect(b);
+			expect(both?.toString()).toBe("[25.00, 50.00] USD");
+			expect(a.overlaps(b)).toBe(true);
+		});
+
+		test("combines open ends and bound types", () => {
+			const a = MoneyRange.atLeast(Money.fromNumber(Currency.USD, 10));
+			const b = MoneyRange.from({
+				min: Money.fromNumber(Currency.USD, 10),
+				max: Money.fromNumber(Currency.USD, 20),
+				minInclusive: false,
+			});
+			expect(a.intersect(b)?.toString()).toBe("(10.00, 20.00] USD");
+			expect(
+				MoneyRange.atMost(Money.fromNumber(Currency.USD, 5))
+					.intersect(MoneyRange.from({}))
+					?.toString(),
+			).toBe("(-∞, 5.00] USD");
+		});
+
+		test("touching ranges overlap only at shared inclusive bounds", () => {
+			const low = MoneyRange.closedOpen(
+				Money.fromNumber(Currency.USD, 0),
+				Money.fromNumber(Currency.USD, 10),
+			);
+			const high = MoneyRange.closedOpen(
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.USD, 20),
+			);
+			expect(low.overlaps(high)).toBe(false);
+			expect(low.intersect(high)).toBeUndefined();
+
+			const point = MoneyRange.closed(
+				Money.fromNumber(Currency.USD, 0),
+				Money.fromNumber(Currency.USD, 10),
+			).intersect(high);
+			expect(point?.toString()).toBe("[10.00, 10.00] USD");
+		});
+	});
+
+	test("clamp limits to inclusive bounds", () => {
+		const range = MoneyRange.closed(
+			Money.fromNumber(Currency.USD, 1),
+			Money.fromNumber(Currency.USD, 5),
+		);
+		expect(range.clamp(Money.fromNumber(Currency.USD, 0)).toNumber()).toBe(1);
+		expect(range.clamp(Money.fromNumber(Currency.USD, 9)).toNumber()).toBe(5);
+		expect(range.clamp(Money.fromNumber(Currency.USD, 3)).toNumber()).toBe(3);
+		expect(() =>
+			MoneyRange.closedOpen(
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.USD, 5),
+			).clamp(Money.fromNumber(Currency.USD, 9)),
+		).toThrow("Cannot clamp to an exclusive bound");
+	});
+
+	test("equals compares bounds", () => {
+		expect(
+			MoneyRange.closed(
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.USD, 2),
+			).equals(
+				MoneyRange.closed(
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.USD, 2),
+				),
+			),
+		).toBe(true);
+		expect(
+			MoneyRange.closed(
+				Money.fromNumber(Currency.USD, 1),
+				Money.fromNumber(Currency.USD, 2),
+			).equals(
+				MoneyRange.closedOpen(
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.USD, 2),
+				),
+			),
+		).toBe(false);
+		expect(
+			MoneyRange.atLeast(Money.fromNumber(Currency.USD, 1)).equals(
+				MoneyRange.closed(
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.USD, 2),
+				),
+			),
+		).toBe(false);
+	});
+
+	describe("tiers and bucketing", () => {
+		test("tiers splits at ascending thresholds", () => {
+			const tiers = MoneyRange.tiers([
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.USD, 50),
+				Money.fromNumber(Currency.USD, 100),
+			]);
+			expect(tiers.map(String)).toEqual([
+				"(-∞, 10.00) USD",
+				"[10.00, 50.00) USD",
+				"[50.00, 100.00) USD",
+				"[100.00, ∞) USD",
+			]);
+			expect(() =>
+				MoneyRange.tiers([
+					Money.fromNumber(Currency.USD, 10),
+					Money.fromNumber(Currency.USD, 10),
+				]),
+			).toThrow("Tier thresholds must be strictly ascending");
+			expect(() => MoneyRange.tiers([])).toThrow(
+				"Tiers require at least one threshold",
+			);
+		});
+
+		test("bucket groups values by the first matching range", () => {
+			const values = [
+				Money.fromNumber(Currency.USD, 5),
+				Money.fromNumber(Currency.USD, 75),
+				Money.fromNumber(Currency.USD, 10),
+				Money.fromNumber(Currency.USD, 250),
+				Money.fromNumber(Currency.USD, 49.99),
+			];
+			const { buckets, unmatched } = MoneyRange.bucket(
+				values,
+				MoneyRange.tiers([
+					Money.fromNumber(Currency.USD, 10),
+					Money.fromNumber(Currency.USD, 50),
+					Money.fromNumber(Currency.USD, 100),
+				]),
+			);
+			expect(
+				buckets.map((bucket) => bucket.values.map((v) => v.toNumber())),
+			).toEqual([[5], [10, 49.99], [75], [250]]);
+			expect(unmatched).toEqual([]);
+		});
+
+		test("bucket reports values outside every range", () => {
+			const { buckets, unmatched } = MoneyRange.bucket(
+				[
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.USD, 500),
+					Money.fromNumber(Currency.USD, 20),
+				],
+				[
+					MoneyRange.closed(
+						Money.fromNumber(Currency.USD, 0),
+						Money.fromNumber(Currency.USD, 100),
+					),
+					MoneyRange.closed(
+						Money.fromNumber(Currency.USD, 10),
+						Money.fromNumber(Currency.USD, 30),
+					),
+				],
+			);
+			expect(buckets[0]?.values.map((v) => v.toNumber())).toEqual([1, 20]);
+			expect(buckets[1]?.values).toEqual([]);
+			expect(unmatched.map((v) => v.toNumber())).toEqual([500]);
+		});
+	});
+});
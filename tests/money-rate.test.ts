@@ -0,0 +1,199 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Money, Rate } from "../src";
+
+describe("Rate", () => {
+	describe("from", () => {
+		test("parses decimal strings exactly", () => {
+			const rate = Rate.from("1.38925039713376021934");
+			expect(rate.equals([138925039713376021934n, 10n ** 20n])).toBe(true);
+			expect(rate.toString()).toBe("1.38925039713376021934");
+		});
+
+		test("parses fraction strings and reduces them", () => {
+			const rate = Rate.from("2/6");
+			expect(rate.numerator).toBe(1n);
+			expect(rate.denominator).toBe(3n);
+			expect(rate.toString()).toBe("1/3");
+		});
+
+		test("accepts numbers, bigints and numerator/denominator pairs", () => {
+			expect(Rate.from(0.92).toString()).toBe("0.92");
+			expect(Rate.from(5n).toString()).toBe("5");
+			expect(Rate.from([10n, 4n]).toString()).toBe("2.5");
+			expect(Rate.from([1n, -3n]).toString()).toBe("-1/3");
+		});
+
+		test("accepts scientific notation", () => {
+			expect(Rate.from("1.5e-3").toString()).toBe("0.0015");
+			expect(Rate.from(1e-7).toString()).toBe("0.0000001");
+			expect(Rate.from("2E3").toString()).toBe("2000");
+		});
+
+		test("rejects exponents too large to expand", () => {
+			expect(() => Rate.parse("1e-9999999")).toThrow("Exponent out of range");
+			expect(() => Rate.parse("1e9999999")).toThrow("Exponent out of range");
+			expect(Rate.parse("0e9999999").isZero()).toBe(true);
+			expect(Rate.parse("1e-1000").denominator).toBe(10n ** 1000n);
+		});
+
+		test("returns Rate instances unchanged", () => {
+			const rate = Rate.fraction(1n, 3n);
+			expect(Rate.from(rate)).toBe(rate);
+		});
+
+		test("rejects invalid input", () => {
+			expect(() => Rate.from("abc")).toThrow(
+				'Rate is not a valid decimal or fraction: "abc"',
+			);
+			expect(() => Rate.from("1/0")).toThrow("Rate denominator cannot be zero");
+			expect(() => Rate.from([1n, 0n])).toThrow();
+			expect(() => Rate.from(Number.POSITIVE_INFINITY)).toThrow(
+				"Rate must be a finite number",
+			);
+		});
+	});
+
+	describe("arithmetic", () => {
+		test("multiply keeps the result exact", () => {
+			const rate = Rate.fraction(1n, 3n).multiply("0.3");
+			expect(rate.toString()).toBe("0.1");
+		});
+
+		test("add, subtract and divide stay exact", () => {
+			const third = Rate.fraction(1n, 3n);
+			expect(third.add(third).add(third).toString()).toBe("1");
+			expect(Rate.from("0.3").subtract(third).toString()).toBe("-1/30");
+			expect(Rate.from(1n).divide(3n).equals(third)).toBe(true);
+			expect(() => third.divide(0)).toThrow("Cannot invert a zero rate");
+		});
+
+		test("compare orders values", () => {
+			expect(Rate.fraction(1n, 3n).compare("0.33")).toBe(1);
+			expect(Rate.from("0.5").compare([1n, 2n])).toBe(0);
+			expect(Rate.from("-1").compare(0)).toBe(-1);
+		});
+
+		test("invert", () => {
+			expect(Rate.from("0.8").invert().toString()).toBe("1.25");
+			expect(Rate.from("-3").invert().toString()).toBe("-1/3");
+			expect(() => Rate.from(0).invert()).toThrow("Cannot invert a zero rate");
+		});
+
+		test("equals compares reduced values", () => {
+			expect(Rate.from("0.5").equals([1n, 2n])).toBe(true);
+			expect(Rate.from("0.5").equals("0.50")).toBe(true);
+			expect(Rate.from("0.5").equals("0.51")).toBe(false);
+		});
+
+		test("sign predicates", () => {
+			expect(Rate.from(0).isZero()).toBe(true);
+			expect(Rate.from("0.1").isPositive()).toBe(true);
+			expect(Rate.from("-0.1").isNegative()).toBe(true);
+		});
+	});
+
+	describe("output", () => {
+		test("toNumber approximates non-terminating values", () => {
+			expect(Rate.fraction(1n, 3n).toNumber()).toBeCloseTo(1 / 3, 15);
+			expect(Rate.from("157.9").toNumber()).toBe(157.9);
+		});
+
+		test("toFixed rounds to a fixed number of places", () => {
+			const third = Rate.fraction(100n, 3n);
+			expect(third.toFixed(2)).toBe("33.33");
+			expect(third.toFixed(2, "ceil")).toBe("33.34");
+			expect(Rate.from("-0.125").toFixed(2, "halfEven")).toBe("-0.12");
+			expect(Rate.from("2.5").toFixed(0)).toBe("3");
+			expect(Rate.from("0.05").toFixed(4)).toBe("0.0500");
+			expect(() => third.toFixed(-1)).toThrow(
+				"Decimal places must be a non-negative integer",
+			);
+		});
+
+		test("toJSON is the exact string form", () => {
+			expect(JSON.stringify({ rate: Rate.from("0.125") })).toBe(
+				'{"rate":"0.125"}',
+			);
+			expect(JSON.stringify(Rate.fraction(2n, 3n))).toBe('"2/3"');
+		});
+	});
+});
+
+describe("exact rate inputs", () => {
+	describe("convert", () => {
+		test("applies a decimal string rate beyond float precision", () => {
+			// 1,000,000.00 * 1.00000000000000000501 = 1,000,000.00000000000000501
+			const usd = Money.fromNumber(Currency.USD, 1_000_000);
+			const result = usd.convert(Currency.EUR, "1.00000000000000000501", {
+				rounding: "ceil",
+			});
+			expect(result.toMinor()).toBe(100000001);
+		});
+
+		test("applies a fractional rate without truncation", () => {
+			const result = Money.fromNumber(Currency.USD, 3).convert(Currency.EUR, [
+				1n,
+				3n,
+			]);
+			expect(result.toMinor()).toBe(100);
+		});
+
+		test("accepts a Rate value", () => {
+			const rate = Rate.from("157.91804259474478");
+			const result = Money.convert(
+				Money.fromNumber(Currency.USD, 100),
+				Currency.JPY,
+				rate,
+			);
+			expect(result.toMinor()).toBe(15792);
+		});
+
+		test("rejects non-positive and malformed rates", () => {
+			const usd = Money.fromNumber(Currency.USD, 1);
+			expect(() => usd.convert(Currency.EUR, "0")).toThrow(
+				"Exchange rate must be a finite positive number",
+			);
+			expect(() => usd.convert(Currency.EUR, [-1n, 2n])).toThrow();
+			expect(() => usd.convert(Currency.EUR, "1,5")).toThrow();
+		});
+	});
+
+	describe("percentOf", () => {
+		test("accepts a fraction of a percent", () => {
+			// 1/3 % of 300.00 = 1.00
+			const result = Money.fromNumber(Currency.USD, 300).percentOf([1n, 3n]);
+			expect(result.toMinor()).toBe(100);
+		});
+
+		test("accepts a decimal string", () => {
+			const result = Money.fromNumber(Currency.USD, 100).percentOf("8.25");
+			expect(result.toMinor()).toBe(825);
+		});
+
+		test("increment and decrement accept exact percents", () => {
+			const money = Money.fromNumber(Currency.USD, 90);
+			expect(money.incrementByPercent([100n, 9n]).toMinor()).toBe(10000);
+			expect(money.decrementByPercent("10").toMinor()).toBe(8100);
+		});
+	});
+
+	describe("roundTo", () => {
+		test("accepts a decimal string increment", () => {
+			const money = Money.fromNumber(Currency.USD, 12.37);
+			expect(money.round("0.05").toMinor()).toBe(1235);
+		});
+
+		test("accepts a fraction that is a whole number of minor units", () => {
+			const money = Money.fromNumber(Currency.USD, 12.37);
+			expect(Money.roundTo(money, [1n, 4n]).toMinor()).toBe(1225);
+		});
+
+		test("rejects increments finer than the currency precision", () => {
+			const money = Money.fromNumber(Currency.USD, 1);
+			expect(() => money.round([1n, 3n])).toThrow(
+				"Rounding increment 1/3 cannot be exactly represented with 2 decimal places",
+			);
+			expect(() => money.round("0.001")).toThrow();
+		});
+	});
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Money, type RoundingMode } from "../src";
+
+const HALF_MODES: RoundingMode[] = [
+	"halfUp",
+	"halfDown",
+	"halfTowardZero",
+	"halfAwayFromZero",
+	"halfEven",
+	"halfOdd",
+];
+
+describe("rounding modes", () => {
+	describe("fromNumber ties", () => {
+		const cases: [RoundingMode, number, number][] = [
+			["halfUp", 235, -234],
+			["halfDown", 234, -235],
+			["halfTowardZero", 234, -234],
+			["halfAwayFromZero", 235, -235],
+			["halfEven", 234, -234],
+			["halfOdd", 235, -235],
+			["round", 235, -234],
+		];
+
+		for (const [mode, positive, negative] of cases) {
+			test(`${mode} breaks ±2.345 ties`, () => {
+				expect(
+					Money.fromNumber(Currency.USD, 2.345, { rounding: mode }).toMinor(),
+				).toBe(positive);
+				expect(
+					Money.fromNumber(Currency.USD, -2.345, { rounding: mode }).toMinor(),
+				).toBe(negative);
+			});
+		}
+
+		test("halfEven rounds to the even neighbour", () => {
+			const round = (value: string) =>
+				Money.fromString(Currency.USD, value, {
+					rounding: "halfEven",
+				}).toMinor();
+			expect(round("0.125")).toBe(12);
+			expect(round("0.135")).toBe(14);
+			expect(round("0.145")).toBe(14);
+			expect(round("-0.135")).toBe(-14);
+		});
+
+		test("half modes agree when there is no tie", () => {
+			for (const mode of HALF_MODES) {
+				expect(
+					Money.fromNumber(Currency.USD, 2.346, { rounding: mode }).toMinor(),
+				).toBe(235);
+				expect(
+					Money.fromNumber(Currency.USD, -2.344, { rounding: mode }).toMinor(),
+				).toBe(-234);
+			}
+		});
+
+		test("digits beyond the tie are not ignored", () => {
+			const money = Money.fromString(Currency.USD, "0.12500000000000000001", {
+				rounding: "halfEven",
+			});
+			expect(money.toMinor()).toBe(13);
+		});
+	});
+
+	describe("convert", () => {
+		test("halfEven and halfOdd at a midpoint", () => {
+			const usd = Money.fromNumber(Currency.USD, 1);
+			// 1 * 1.005 = 1.005 EUR, exactly between 1.00 and 1.01
+			expect(
+				usd.convert(Currency.EUR, 1.005, { rounding: "halfEven" }).toMinor(),
+			).toBe(100);
+			expect(
+				usd.convert(Currency.EUR, 1.005, { rounding: "halfOdd" }).toMinor(),
+			).toBe(101);
+		});
+
+		test("halfDown on a negative midpoint", () => {
+			const usd = Money.fromNumber(Currency.USD, -1);
+			expect(
+				usd.convert(Currency.EUR, 1.005, { rounding: "halfDown" }).toMinor(),
+			).toBe(-101);
+		});
+	});
+
+	describe("percent operations", () => {
+		const dollar = Money.fromNumber(Currency.USD, 1);
+
+		test("percentOf", () => {
+			// 12.5% of $1.00 = 12.5 cents
+			expect(dollar.percentOf(12.5, { rounding: "halfEven" }).toMinor()).toBe(
+				12,
+			);
+			expect(dollar.percentOf(12.5, { rounding: "halfOdd" }).toMinor()).toBe(
+				13,
+			);
+		});
+
+		test("incrementByPercent", () => {
+			// $1.00 + 0.5% = 100.5 cents
+			expect(
+				dollar.incrementByPercent(0.5, { rounding: "halfEven" }).toMinor(),
+			).toBe(100);
+			expect(
+				dollar
+					.incrementByPercent(0.5, { rounding: "halfAwayFromZero" })
+					.toMinor(),
+			).toBe(101);
+		});
+
+		test("decrementByPercent", () => {
+			// $1.00 - 0.5% = 99.5 cents
+			expect(
+				dollar.decrementByPercent(0.5, { rounding: "halfEven" }).toMinor(),
+			).toBe(100);
+			expect(
+				dollar
+					.decrementByPercent(0.5, { rounding: "halfTowardZero" })
+					.toMinor(),
+			).toBe(99);
+		});
+	});
+
+	describe("roundTo", () => {
+		test("halfEven to nearest dime", () => {
+			expect(
+				Money.fromNumber(Currency.USD, 1.25).round(0.1, "halfEven").toNumber(),
+			).toBe(1.2);
+			expect(
+				Money.fromNumber(Currency.USD, 1.35).round(0.1, "halfEven").toNumber(),
+			).toBe(1.4);
+		});
+
+		test("negative ties", () => {
+			const money = Money.fromNumber(Currency.USD, -1.25);
+			expect(money.round(0.1, "halfUp").toNumber()).toBe(-1.2);
+			expect(money.round(0.1, "halfDown").toNumber()).toBe(-1.3);
+			expect(money.round(0.1, "halfTowardZero").toNumber()).toBe(-1.2);
+			expect(money.round(0.1, "halfAwayFromZero").toNumber()).toBe(-1.3);
+			expect(money.round(0.1, "halfOdd").toNumber()).toBe(-1.3);
+		});
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import { Currency, Money } from "../src";
+
+describe("Money", () => {
+	describe("multiply", () => {
+		test("quantity × unit price", () => {
+			const unit = Money.fromNumber(Currency.USD, 19.99);
+			expect(unit.multiply(3).toMinor()).toBe(5997);
+		});
+
+		test("accepts decimal strings and bigints", () => {
+			const unit = Money.fromNumber(Currency.USD, 10);
+			expect(unit.multiply("1.5").toMinor()).toBe(1500);
+			expect(unit.multiply(4n).toMinor()).toBe(4000);
+		});
+
+		test("rounds the exact product once", () => {
+			const price = Money.fromNumber(Currency.USD, 0.1);
+			// 0.10 * 0.125 = 0.0125
+			expect(price.multiply(0.125).toMinor()).toBe(1);
+			expect(price.multiply(0.125, { rounding: "ceil" }).toMinor()).toBe(2);
+			expect(price.multiply("0.15", { rounding: "halfEven" }).toMinor()).toBe(
+				2,
+			);
+		});
+
+		test("handles negative factors", () => {
+			const money = Money.fromNumber(Currency.USD, 12.5);
+			expect(money.multiply(-2).toMinor()).toBe(-2500);
+		});
+
+		test("keeps full precision of long factors", () => {
+			const money = Money.fromNumber(Currency.USD, 1000000);
+			expect(money.multiply("1.00000000000000000001").toMinor()).toBe(
+				100000000,
+			);
+			expect(
+				money
+					.multiply("1.00000000000000000001", { rounding: "ceil" })
+					.toMinor(),
+			).toBe(100000001);
+		});
+
+		test("throws for invalid factors", () => {
+			const money = Money.fromNumber(Currency.USD, 1);
+			expect(() => money.multiply(Number.POSITIVE_INFINITY)).toThrow(
+				"Factor must be a finite number",
+			);
+			expect(() => money.multiply("2x")).toThrow("not a valid decimal string");
+		});
+
+		test("throws when result exceeds safe integer range", () => {
+			const money = Money.fromMinor(Currency.USD, Number.MAX_SAFE_INTEGER);
+			expect(() => money.multiply(2)).toThrow("Result too large");
+		});
+
+		test("Money.multiply matches the instance method", () => {
+			const money = Money.fromNumber(Currency.EUR, 3.33);
+			expect(Money.multiply(money, 3).equals(money.multiply(3))).toBe(true);
+		});
+	});
+
+	describe("divide", () => {
+		test("per-unit cost from a total", () => {
+			const total = Money.fromNumber(Currency.USD, 100);
+			expect(total.divide(3).toMinor()).toBe(3333);
+			expect(total.divide(3, { rounding: "ceil" }).toMinor()).toBe(3334);
+		});
+
+		test("accepts decimal strings and bigints", () => {
+			const total = Money.fromNumber(Currency.USD, 10);
+			expect(total.divide("0.5").toMinor()).toBe(2000);
+			expect(total.divide(4n).toMinor()).toBe(250);
+		});
+
+		test("prorates by a fraction of days", () => {
+			const monthly = Money.fromNumber(Currency.USD, 30);
+			expect(monthly.divide(30).multiply(17).toMinor()).toBe(1700);
+		});
+
+		test("handles negative divisors and amounts", () => {
+			const money = Money.fromNumber(Currency.USD, 10);
+			expect(money.divide(-3).toMinor()).toBe(-333);
+			expect(money.divide(-3, { rounding: "floor" }).toMinor()).toBe(-334);
+			expect(
+				Money.fromNumber(Currency.USD, -10)
+					.divide(-4, { rounding: "halfEven" })
+					.toMinor(),
+			).toBe(250);
+		});
+
+		test("breaks ties with the rounding mode", () => {
+			const money = Money.fromMinor(Currency.USD, 5);
+			expect(money.divide(2).toMinor()).toBe(3);
+			expect(money.divide(2, { rounding: "halfEven" }).toMinor()).toBe(2);
+			expect(money.divide(-2).toMinor()).toBe(-2);
+			expect(money.divide(-2, { rounding: "halfAwayFromZero" }).toMinor()).toBe(
+				-3,
+			);
+		});
+
+		test("throws on division by zero", () => {
+			const money = Money.fromNumber(Currency.USD, 1);
+			expect(() => money.divide(0)).toThrow("Cannot divide by zero");
+			expect(() => money.divide("0.000")).toThrow("Cannot divide by zero");
+			expect(() => money.divide(0n)).toThrow("Cannot divide by zero");
+		});
+
+		test("Money.divide matches the instance method", () => {
+			const money = Money.fromNumber(Currency.EUR, 10);
+			expect(Money.divide(money, 3).equals(money.divide(3))).toBe(true);
+		});
+	});
+});
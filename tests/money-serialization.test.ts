@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { Currency, Money } from "../src";
+import { Currency, defineCurrency, Money, MoneyJSONError } from "../src";
 
 describe("Money", () => {
 	describe("toJSON", () => {
@@ -63,4 +63,181 @@ describe("Money", () => {
 			]);
 		});
 	});
+
+	describe("toDecimalString", () => {
+		test("renders exactly decimalPlaces fractional digits", () => {
+			expect(Money.fromMinor(Currency.USD, 1230).toDecimalString()).toBe(
+				"12.30",
+			);
+			expect(Money.fromMinor(Currency.USD, 0).toDecimalString()).toBe("0.00");
+		});
+
+		test("handles negative values below one unit", () => {
+			expect(Money.fromMinor(Currency.USD, -5).toDecimalString()).toBe("-0.05");
+			expect(Money.fromMinor(Currency.USD, -1234).toDecimalString()).toBe(
+				"-12.34",
+			);
+		});
+
+		test("omits the decimal point for zero decimal currencies", () => {
+			expect(Money.fromMinor(Currency.JPY, 1000).toDecimalString()).toBe(
+				"1000",
+			);
+			expect(Money.fromMinor(Currency.JPY, -7).toDecimalString()).toBe("-7");
+		});
+
+		test("renders all 8 BTC decimal places", () => {
+			expect(Money.fromMinor(Currency.BTC, 1).toDecimalString()).toBe(
+				"0.00000001",
+			);
+		});
+
+		test("respects custom currency decimal places", () => {
+			const gold = defineCurrency("XAU", 4);
+			expect(Money.fromMinor(gold, 12345).toDecimalString()).toBe("1.2345");
+		});
+
+		test("is exact where toNumber drifts", () => {
+			const sum = Money.fromNumber(Currency.BTC, 0.1).add(
+				Money.fromNumber(Currency.BTC, 0.2),
+			);
+			expect(sum.toDecimalString()).toBe("0.30000000");
+		});
+
+		test("round-trips through fromString", () => {
+			const money = Money.fromMinor(Currency.USD, 9007199254740991);
+			expect(money.toDecimalString()).toBe("90071992547409.91");
+			expect(
+				Money.fromString(Currency.USD, money.toDecimalString()).equals(money),
+			).toBe(true);
+		});
+	});
+
+	describe("fromJSON", () => {
+		test("round-trips toJSON output", () => {
+			const money = Money.fromNumber(Currency.USD, 12.34);
+			const restored = Money.fromJSON(money.toJSON());
+			expect(restored.toMinor()).toBe(1234);
+			expect(restored.currency).toBe(Currency.USD);
+		});
+
+		test("round-trips negative and zero values", () => {
+			expect(Money.fromJSON({ amount: -550, currency: "GBP" }).toNumber()).toBe(
+				-5.5,
+			);
+			expect(Money.fromJSON({ amount: 0, currency: "JPY" }).isZero()).toBe(
+				true,
+			);
+		});
+
+		test("resolves custom currencies from a supplied registry", () => {
+			const gold = defineCurrency("XAU", 4);
+			const restored = Money.fromJSON({ amount: 12345, currency: "XAU" }, [
+				gold,
+			]);
+			expect(restored.currency).toBe(gold);
+			expect(restored.toNumber()).toBe(1.2345);
+		});
+
+		test("accepts a record of definitions as registry", () => {
+			const gold = defineCurrency("XAU", 4);
+			const restored = Money.fromJSON({ amount: 1, currency: "XAU" }, { gold });
+			expect(restored.currency).toBe(gold);
+		});
+
+		test("throws for unknown currency code", () => {
+			expect(() => Money.fromJSON({ amount: 1, currency: "XAU" })).toThrow(
+				'unknown currency code "XAU"',
+			);
+		});
+
+		test("throws for non-object values", () => {
+			for (const value of [null, 42, "USD", [1, "USD"]]) {
+				expect(() => Money.fromJSON(value)).toThrow(MoneyJSONError);
+			}
+		});
+
+		test("throws for non-integer amount", () => {
+			expect(() => Money.fromJSON({ amount: 12.5, currency: "USD" })).toThrow(
+				"amount must be an integer number of minor units",
+			);
+		});
+
+		test("throws for non-integer string amount", () => {
+			expect(() =>
+				Money.fromJSON({ amount: "12.34", currency: "USD" }),
+			).toThrow("amount string must be an integer");
+		});
+
+		test("throws for non-numeric amount", () => {
+			expect(() => Money.fromJSON({ amount: true, currency: "USD" })).toThrow(
+				MoneyJSONError,
+			);
+		});
+
+		test("throws for unsafe amount", () => {
+			expect(() =>
+				Money.fromJSON({ amount: 2 ** 60, currency: "USD" }),
+			).toThrow("amount exceeds safe integer range");
+		});
+
+		test("throws for missing currency", () => {
+			expect(() => Money.fromJSON({ amount: 100 })).toThrow(
+				"currency must be a non-empty string",
+			);
+		});
+
+		test("reports which field was wrong", () => {
+			const fieldOf = (value: unknown) => {
+				try {
+					Money.fromJSON(value);
+				} catch (error) {
+					return error instanceof MoneyJSONError ? error.field : undefined;
+				}
+				return undefined;
+			};
+			expect(fieldOf(undefined)).toBe("value");
+			expect(fieldOf({ amount: 1.5, currency: "USD" })).toBe("amount");
+			expect(fieldOf({ amount: 1, currency: "ABC" })).toBe("currency");
+		});
+	});
+
+	describe("parse", () => {
+		test("parses JSON.stringify output", () => {
+			const money = Money.fromNumber(Currency.EUR, 99.99);
+			const restored = Money.parse(JSON.stringify(money));
+			expect(restored.equals(money)).toBe(true);
+		});
+
+		test("throws for malformed JSON", () => {
+			expect(() => Money.parse("{amount: 1")).toThrow("malformed JSON");
+		});
+	});
+
+	describe("bigint JSON", () => {
+		test("toBigIntJSON emits the amount as an integer string", () => {
+			const money = Money.fromMinor(Currency.USD, -1234);
+			expect(money.toBigIntJSON()).toEqual({
+				amount: "-1234",
+				currency: "USD",
+			});
+		});
+
+		test("round-trips values beyond the safe integer range", () => {
+			const huge = 10n ** 30n;
+			const money = Money.fromMinorBigInt(Currency.BTC, huge, {
+				unbounded: true,
+			});
+			const restored = Money.parse(JSON.stringify(money.toBigIntJSON()));
+			expect(restored.toMinorBigInt()).toBe(huge);
+			expect(restored.isUnbounded()).toBe(true);
+		});
+
+		test("toJSON throws for values beyond the safe integer range", () => {
+			const money = Money.fromMinorBigInt(Currency.USD, 2n ** 60n, {
+				unbounded: true,
+			});
+			expect(() => money.toJSON()).toThrow("use toMinorBigInt()");
+		});
+	});
 });
@@ -0,0 +1,289 @@
+import { describe, expect, test } from "bun:test";
+import {
+	Currency,
+	calculateTax,
+	extractTax,
+	Money,
+	type TaxBreakdown,
+	type TaxRate,
+} from "../src";
+
+const minors = (breakdown: TaxBreakdown) =>
+	breakdown.taxes.map((tax) => [tax.id, tax.amount.toMinor()]);
+
+const salesTax: TaxRate[] = [
+	{ id: "state", percent: 6.25 },
+	{ id: "county", percent: 1 },
+	{ id: "city", percent: "1.5" },
+];
+
+function expectConsistent(breakdown: TaxBreakdown) {
+	for (const part of [breakdown, ...breakdown.lines]) {
+		expect(part.net.add(part.tax).equals(part.gross)).toBe(true);
+		const perRate = part.taxes.reduce(
+			(sum, tax) => sum.add(tax.amount),
+			Money.fromMinor(part.net.currency, 0),
+		);
+		expect(perRate.equals(part.tax)).toBe(true);
+	}
+	expect(
+		Money.sum(breakdown.lines.map((line) => line.gross)).equals(
+			breakdown.gross,
+		),
+	).toBe(true);
+}
+
+describe("calculateTax", () => {
+	describe("exclusive pricing", () => {
+		test("adds a single rate on top of the net amount", () => {
+			const result = calculateTax(Money.fromNumber(Currency.USD, 100), [
+				{ id: "sales", percent: 8.25 },
+			]);
+			expect(result.net.toNumber()).toBe(100);
+			expect(result.tax.toNumber()).toBe(8.25);
+			expect(result.gross.toNumber()).toBe(108.25);
+			expect(result.lines).toHaveLength(1);
+		});
+
+		test("stacks state, county and city rates", () => {
+			const result = calculateTax(
+				Money.fromNumber(Currency.USD, 19.99),
+				salesTax,
+			);
+			// 1.249375, 0.1999, 0.29985
+			expect(minors(result)).toEqual([
+				["state", 125],
+				["county", 20],
+				["city", 30],
+			]);
+			expect(result.gross.toNumber()).toBe(21.74);
+			expectConsistent(result);
+		});
+
+		test("applies compound rates to net plus earlier taxes", () => {
+			const result = calculateTax(Money.fromNumber(Currency.USD, 100), [
+				{ id: "GST", percent: 5 },
+				{ id: "QST", percent: "9.975", compound: true },
+			]);
+			// QST on 105.00 = 10.47375
+			expect(minors(result)).toEqual([
+				["GST", 500],
+				["QST", 1047],
+			]);
+			expect(result.gross.toNumber()).toBe(115.47);
+		});
+
+		test("respects the rounding mode", () => {
+			const result = calculateTax(
+				Money.fromNumber(Currency.USD, 19.99),
+				salesTax,
+				{ rounding: "floor" },
+			);
+			expect(minors(result)).toEqual([
+				["state", 124],
+				["county", 19],
+				["city", 29],
+			]);
+		});
+
+		test("returns zero tax with no rates", () => {
+			const result = calculateTax(Money.fromNumber(Currency.USD, 10), []);
+			expect(result.tax.isZero()).toBe(true);
+			expect(result.gross.toNumber()).toBe(10);
+			expect(result.taxes).toEqual([]);
+		});
+	});
+
+	describe("inclusive pricing", () => {
+		test("extracts tax from a gross price", () => {
+			const result = calculateTax(
+				Money.fromNumber(Currency.USD, 119),
+				[{ id: "VAT", percent: 19 }],
+				{
+					pricing: "inclusive",
+				},
+			);
+			expect(result.net.toNumber()).toBe(100);
+			expect(result.tax.toNumber()).toBe(19);
+			expect(result.gross.toNumber()).toBe(119);
+		});
+
+		test("keeps the gross amount and derives net from rounded tax", () => {
+			// 10.00 / 1.2 = 8.3333..., tax 1.6666... -> 1.67
+			const result = extractTax(Money.fromNumber(Currency.USD, 10), [
+				{ id: "VAT", percent: 20 },
+			]);
+			expect(result.tax.toNumber()).toBe(1.67);
+			expect(result.net.toNumber()).toBe(8.33);
+			expect(result.gross.toNumber()).toBe(10);
+		});
+
+		test("extracts stacked and compound rates", () => {
+			const result = extractTax(Money.fromNumber(Currency.USD, 115.47), [
+				{ id: "GST", percent: 5 },
+				{ id: "QST", percent: "9.975", compound: true },
+			]);
+			expect(minors(result)).toEqual([
+				["GST", 500],
+				["QST", 1047],
+			]);
+			expect(result.net.toNumber()).toBe(100);
+		});
+	});
+
+	describe("rounding level", () => {
+		const lines = [
+			Money.fromNumber(Currency.USD, 0.1),
+			Money.fromNumber(Currency.USD, 0.1),
+			Money.fromNumber(Currency.USD, 0.1),
+		];
+		const rates = [{ id: "tax", percent: 5 }];
+
+		test("line rounding rounds every line separately", () => {
+			const result = calculateTax(lines, rates);
+			expect(result.tax.toMinor()).toBe(3);
+			expect(result.lines.map((line) => line.tax.toMinor())).toEqual([1, 1, 1]);
+		});
+
+		test("invoice rounding rounds the total once and allocates it", () => {
+			const result = calculateTax(lines, rates, { roundingLevel: "invoice" });
+			// 3 x 0.005 = 0.015 -> 0.02
+			expect(result.tax.toMinor()).toBe(2);
+			expect(result.lines.map((line) => line.tax.toMinor())).toEqual([1, 1, 0]);
+			expectConsistent(result);
+		});
+
+		test("invoice rounding allocates to the largest remainders", () => {
+			const result = calculateTax(
+				[
+					Money.fromNumber(Currency.USD, 0.05),
+					Money.fromNumber(Currency.USD, 0.18),
+					Money.fromNumber(Currency.USD, 0.07),
+				],
+				rates,
+				{
+					roundingLevel: "invoice",
+				},
+			);
+			// exact 0.0025, 0.009, 0.0035; total 0.015 -> 2 minor units
+			expect(result.lines.map((line) => line.tax.toMinor())).toEqual([0, 1, 1]);
+		});
+
+		test("invoice rounding with inclusive pricing", () => {
+			const result = extractTax(
+				[
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.USD, 1),
+					Money.fromNumber(Currency.USD, 1),
+				],
+				[{ id: "VAT", percent: 20 }],
+				{ roundingLevel: "invoice" },
+			);
+			// 3 x 0.1666... = 0.50
+			expect(result.tax.toMinor()).toBe(50);
+			expect(result.gross.toNumber()).toBe(3);
+			expectConsistent(result);
+		});
+	});
+
+	describe("exemptions", () => {
+		test("fully exempt lines carry no tax", () => {
+			const result = calculateTax(
+				[
+					{ amount: Money.fromNumber(Currency.USD, 10) },
+					{ amount: Money.fromNumber(Currency.USD, 5), exempt: true },
+				],
+				salesTax,
+			);
+			expect(result.lines[1]?.tax.isZero()).toBe(true);
+			expect(result.lines[1]?.gross.toNumber()).toBe(5);
+			expect(result.net.toNumber()).toBe(15);
+			expectConsistent(result);
+		});
+
+		test("partial exemptions skip only the listed rates", () => {
+			const result = calculateTax(
+				{ amount: Money.fromNumber(Currency.USD, 100), exempt: ["city"] },
+				salesTax,
+			);
+			expect(minors(result)).toEqual([
+				["state", 625],
+				["county", 100],
+				["city", 0],
+			]);
+		});
+
+		test("compound rates exclude exempted earlier taxes", () => {
+			const result = calculateTax(
+				{ amount: Money.fromNumber(Currency.USD, 100), exempt: ["GST"] },
+				[
+					{ id: "GST", percent: 5 },
+					{ id: "QST", percent: "9.975", compound: true },
+				],
+			);
+			expect(minors(result)).toEqual([
+				["GST", 0],
+				["QST", 998],
+			]);
+		});
+	});
+
+	describe("invariants", () => {
+		test("components always sum exactly", () => {
+			const amounts = [0.01, 0.99, 1.23, 19.99, 333.33, 1234.56, -7.77];
+			for (const pricing of ["exclusive", "inclusive"] as const) {
+				for (const roundingLevel of ["line", "invoice"] as const) {
+					const result = calculateTax(
+						amounts.map((amount) => Money.fromNumber(Currency.USD, amount)),
+						[...salesTax, { id: "extra", percent: [1n, 3n], compound: true }],
+						{ pricing, roundingLevel, rounding: "halfEven" },
+					);
+					expectConsistent(result);
+				}
+			}
+		});
+	});
+
+	describe("validation", () => {
+		test("requires at least one line", () => {
+			expect(() => calculateTax([], salesTax)).toThrow(
+				"Tax calculation requires at least one line",
+			);
+		});
+
+		test("rejects mixed currencies", () => {
+			expect(() =>
+				calculateTax(
+					[
+						Money.fromNumber(Currency.USD, 1),
+						Money.fromNumber(Currency.EUR, 1),
+					],
+					salesTax,
+				),
+			).toThrow("currency mismatch");
+		});
+
+		test("rejects duplicate and negative rates", () => {
+			expect(() =>
+				calculateTax(Money.fromNumber(Currency.USD, 1), [
+					{ id: "a", percent: 1 },
+					{ id: "a", percent: 2 },
+				]),
+			).toThrow('Duplicate tax rate "a"');
+			expect(() =>
+				calculateTax(Money.fromNumber(Currency.USD, 1), [
+					{ id: "a", percent: -1 },
+				]),
+			).toThrow('Tax rate "a" must not be negative');
+		});
+
+		test("rejects exemptions for unknown rates", () => {
+			expect(() =>
+				calculateTax(
+					{ amount: Money.fromNumber(Currency.USD, 1), exempt: ["federal"] },
+					salesTax,
+				),
+			).toThrow('Unknown tax rate "federal" in exemption');
+		});
+	});
+});